@@ -11,6 +11,9 @@ import Dashboard from "@/pages/dashboard";
 import ActivityLog from "@/pages/activity-log";
 import Leaderboard from "@/pages/leaderboard";
 import Goals from "@/pages/goals";
+import Settings from "@/pages/settings";
+import UtilityImport from "@/pages/utility-import";
+import TripImport from "@/pages/trip-import";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -27,6 +30,9 @@ function Router() {
             <Route path="/activity-log" component={ActivityLog} />
             <Route path="/leaderboard" component={Leaderboard} />
             <Route path="/goals" component={Goals} />
+            <Route path="/settings" component={Settings} />
+            <Route path="/utility-import" component={UtilityImport} />
+            <Route path="/trip-import" component={TripImport} />
           </>
         )}
         <Route component={NotFound} />
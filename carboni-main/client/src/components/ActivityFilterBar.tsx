@@ -0,0 +1,152 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import DatePicker from "@/components/DatePicker";
+import { TRANSPORT_LABELS } from "@/lib/carbonCalculations";
+import type { ActivityCategory, ActivitySort } from "@shared/schema";
+import { X } from "lucide-react";
+
+// Select value for "no filter"
+const ANY = "all";
+
+export type ActivityFilters = {
+  startDate: string;
+  endDate: string;
+  category: ActivityCategory | typeof ANY;
+  transportType: string;
+  minEmissions: string;
+  maxEmissions: string;
+  sort: ActivitySort;
+};
+
+export const DEFAULT_ACTIVITY_FILTERS: ActivityFilters = {
+  startDate: "",
+  endDate: "",
+  category: ANY,
+  transportType: ANY,
+  minEmissions: "",
+  maxEmissions: "",
+  sort: "date_desc",
+};
+
+const CATEGORY_LABELS: Record<ActivityCategory, string> = {
+  transport: "Transport",
+  energy: "Energy",
+  food: "Food",
+};
+
+const SORT_LABELS: Record<ActivitySort, string> = {
+  date_desc: "Newest first",
+  date_asc: "Oldest first",
+  emissions_desc: "Highest emissions",
+  emissions_asc: "Lowest emissions",
+};
+
+// Query string for one page of the activity history endpoint
+export function toActivityQuery(filters: ActivityFilters, cursor?: string | null): string {
+  const params = new URLSearchParams({ sort: filters.sort });
+  if (filters.startDate) params.set("startDate", filters.startDate);
+  if (filters.endDate) params.set("endDate", filters.endDate);
+  if (filters.category !== ANY) params.set("category", filters.category);
+  if (filters.transportType !== ANY) params.set("transportType", filters.transportType);
+  if (filters.minEmissions) params.set("minEmissions", filters.minEmissions);
+  if (filters.maxEmissions) params.set("maxEmissions", filters.maxEmissions);
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+export function hasActiveFilters(filters: ActivityFilters): boolean {
+  return (Object.keys(filters) as (keyof ActivityFilters)[]).some(
+    (key) => key !== "sort" && filters[key] !== DEFAULT_ACTIVITY_FILTERS[key],
+  );
+}
+
+interface ActivityFilterBarProps {
+  filters: ActivityFilters;
+  onChange: (filters: ActivityFilters) => void;
+}
+
+export default function ActivityFilterBar({ filters, onChange }: ActivityFilterBarProps) {
+  const update = <K extends keyof ActivityFilters>(field: K, value: ActivityFilters[K]) => {
+    onChange({ ...filters, [field]: value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <div className="w-full sm:w-auto">
+        <DatePicker value={filters.startDate} placeholder="From" onChange={(date) => update("startDate", date)} />
+      </div>
+      <div className="w-full sm:w-auto">
+        <DatePicker value={filters.endDate} placeholder="To" onChange={(date) => update("endDate", date)} />
+      </div>
+
+      <Select value={filters.category} onValueChange={(value) => update("category", value as ActivityFilters["category"])}>
+        <SelectTrigger className="w-40" aria-label="Category">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All categories</SelectItem>
+          {(Object.keys(CATEGORY_LABELS) as ActivityCategory[]).map((category) => (
+            <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={filters.transportType} onValueChange={(value) => update("transportType", value)}>
+        <SelectTrigger className="w-44" aria-label="Transport type">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any transport</SelectItem>
+          {Object.entries(TRANSPORT_LABELS).map(([type, label]) => (
+            <SelectItem key={type} value={type}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Input
+        type="number"
+        min="0"
+        step="0.1"
+        className="w-32"
+        placeholder="Min kg CO2e"
+        aria-label="Minimum emissions (kg CO2e)"
+        value={filters.minEmissions}
+        onChange={(e) => update("minEmissions", e.target.value)}
+      />
+      <Input
+        type="number"
+        min="0"
+        step="0.1"
+        className="w-32"
+        placeholder="Max kg CO2e"
+        aria-label="Maximum emissions (kg CO2e)"
+        value={filters.maxEmissions}
+        onChange={(e) => update("maxEmissions", e.target.value)}
+      />
+
+      <Select value={filters.sort} onValueChange={(value) => update("sort", value as ActivitySort)}>
+        <SelectTrigger className="w-44" aria-label="Sort order">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(SORT_LABELS) as ActivitySort[]).map((sort) => (
+            <SelectItem key={sort} value={sort}>{SORT_LABELS[sort]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {hasActiveFilters(filters) && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ ...DEFAULT_ACTIVITY_FILTERS, sort: filters.sort })}
+        >
+          <X className="w-4 h-4 mr-1" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
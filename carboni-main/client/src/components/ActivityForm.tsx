@@ -1,61 +1,246 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, Trash2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { calculateEmissions, TRANSPORT_LABELS } from "@/lib/carbonCalculations";
+import { SERVING_SIZES_KG, SHARED_VEHICLE_TYPES, TRANSPORT_TYPES, type FactorSet, type TransportType } from "@shared/emissions";
+import { activityToCanonical, formatQuantity, fromMiles, UNIT_LABELS } from "@shared/units";
+import { CABIN_CLASSES, getFlightDistance } from "@shared/flights";
+import { getVehicleTransportType } from "@shared/vehicles";
+import type { ActivityWithDetails, FoodItemWithFactor, Vehicle } from "@shared/schema";
+import MealEntry, { getMealItemGrams, GRAMS_PORTION, type MealFormItem } from "@/components/MealEntry";
+import DatePicker, { todayDateString, type LoggableDateRange } from "@/components/DatePicker";
+import SaveTemplateDialog from "@/components/SaveTemplateDialog";
+import { format, parseISO } from "date-fns";
+import { useUnitPreferences } from "@/hooks/useUnitPreferences";
 
-export default function ActivityForm() {
+type TripFormData = {
+  mode: string;
+  vehicleId: string;
+  distance: string;
+  passengers: string;
+  origin: string;
+  destination: string;
+  cabinClass: string;
+  radiativeForcing: boolean;
+};
+
+const CABIN_CLASS_LABELS: Record<string, string> = {
+  economy: "Economy",
+  premium_economy: "Premium Economy",
+  business: "Business",
+  first: "First",
+};
+
+type ActivityFormData = {
+  date: string;
+  trips: TripFormData[];
+  electricityUsage: string;
+  naturalGasUsage: string;
+  heatingOilUsage: string;
+  propaneUsage: string;
+  woodUsage: string;
+  districtHeatUsage: string;
+  mealItems: MealFormItem[];
+};
+
+// Select values for the user's vehicles, listed alongside the transport types
+const VEHICLE_OPTION_PREFIX = "vehicle-";
+
+const EMPTY_TRIP: TripFormData = {
+  mode: "",
+  vehicleId: "",
+  distance: "",
+  passengers: "",
+  origin: "",
+  destination: "",
+  cabinClass: "economy",
+  radiativeForcing: false,
+};
+
+const isCompleteTrip = (trip: TripFormData) =>
+  trip.mode === "flight" ? Boolean(trip.origin && trip.destination) : Boolean(trip.mode && trip.distance);
+
+const createEmptyForm = (date: string = todayDateString()): ActivityFormData => ({
+  date,
+  trips: [EMPTY_TRIP],
+  electricityUsage: "",
+  naturalGasUsage: "",
+  heatingOilUsage: "",
+  propaneUsage: "",
+  woodUsage: "",
+  districtHeatUsage: "",
+  mealItems: [],
+});
+
+const toInputValue = (value: number | null | undefined) => (value != null ? String(value) : "");
+
+// Days logged before the food catalog kept fixed servings. The form shows them
+// as catalog items by mass, which the engine counts the same, and saving
+// clears the servings so they aren't counted twice.
+const LEGACY_SERVINGS = [
+  ["beefServings", "beef"],
+  ["chickenServings", "chicken"],
+  ["vegetableServings", "vegetables"],
+] as const;
+
+function legacyServingItems(activity: ActivityWithDetails): MealFormItem[] {
+  return LEGACY_SERVINGS.flatMap(([field, foodKey]) => {
+    const servings = activity[field];
+    if (!servings) return [];
+    const grams = Math.round(servings * SERVING_SIZES_KG[foodKey] * 1000);
+    return [{ foodKey, portion: GRAMS_PORTION, quantity: String(grams) }];
+  });
+}
+
+// Form state for editing a stored activity (already in the user's units)
+function fromActivity(activity: ActivityWithDetails): ActivityFormData {
+  const trips: TripFormData[] = activity.trips.map((trip) => ({
+    mode: trip.mode,
+    vehicleId: toInputValue(trip.vehicleId),
+    distance: toInputValue(trip.distance),
+    passengers: toInputValue(trip.passengers),
+    origin: trip.origin ?? "",
+    destination: trip.destination ?? "",
+    cabinClass: trip.cabinClass ?? "economy",
+    radiativeForcing: trip.radiativeForcing ?? false,
+  }));
+  if (trips.length === 0 && activity.transportType && activity.transportDistance) {
+    trips.push({ ...EMPTY_TRIP, mode: activity.transportType, distance: String(activity.transportDistance) });
+  }
+
+  return {
+    date: activity.date,
+    trips: trips.length > 0 ? trips : [EMPTY_TRIP],
+    electricityUsage: toInputValue(activity.electricityUsage),
+    naturalGasUsage: toInputValue(activity.naturalGasUsage),
+    heatingOilUsage: toInputValue(activity.heatingOilUsage),
+    propaneUsage: toInputValue(activity.propaneUsage),
+    woodUsage: toInputValue(activity.woodUsage),
+    districtHeatUsage: toInputValue(activity.districtHeatUsage),
+    mealItems: activity.mealItems.map((item) =>
+      item.portionLabel && item.quantity
+        ? {
+            foodKey: item.foodKey,
+            portion: item.portionLabel,
+            quantity: String(item.quantity),
+            portionGrams: item.grams / item.quantity,
+          }
+        : { foodKey: item.foodKey, portion: GRAMS_PORTION, quantity: String(item.grams) },
+    ).concat(legacyServingItems(activity)),
+  };
+}
+
+function toActivityPayload(data: ActivityFormData, foods: FoodItemWithFactor[]) {
+  return {
+    date: data.date,
+    trips: data.trips
+      .filter(isCompleteTrip)
+      .map((trip) =>
+        trip.mode === "flight"
+          ? {
+              // Flight distance comes from the airport pair
+              mode: trip.mode,
+              distance: 0,
+              origin: trip.origin.toUpperCase(),
+              destination: trip.destination.toUpperCase(),
+              cabinClass: trip.cabinClass,
+              radiativeForcing: trip.radiativeForcing,
+            }
+          : {
+              mode: trip.mode,
+              distance: parseFloat(trip.distance),
+              passengers: trip.passengers ? parseInt(trip.passengers) : null,
+              vehicleId: trip.vehicleId ? parseInt(trip.vehicleId) : null,
+            },
+      ),
+    electricityUsage: data.electricityUsage ? parseFloat(data.electricityUsage) : null,
+    naturalGasUsage: data.naturalGasUsage ? parseFloat(data.naturalGasUsage) : null,
+    heatingOilUsage: data.heatingOilUsage ? parseFloat(data.heatingOilUsage) : null,
+    propaneUsage: data.propaneUsage ? parseFloat(data.propaneUsage) : null,
+    woodUsage: data.woodUsage ? parseFloat(data.woodUsage) : null,
+    districtHeatUsage: data.districtHeatUsage ? parseFloat(data.districtHeatUsage) : null,
+    beefServings: null,
+    chickenServings: null,
+    vegetableServings: null,
+    mealItems: data.mealItems.flatMap((item) => {
+      const grams = getMealItemGrams(item, foods);
+      if (grams === null) return [];
+      return [{
+        foodKey: item.foodKey,
+        grams,
+        portionLabel: item.portion === GRAMS_PORTION ? null : item.portion,
+        quantity: item.portion === GRAMS_PORTION ? null : parseFloat(item.quantity),
+      }];
+    }),
+  };
+}
+
+interface ActivityFormProps {
+  // Activity to edit; the form logs a new activity when omitted
+  activity?: ActivityWithDetails;
+  // Day a new activity starts on, defaults to today
+  initialDate?: string;
+  onSaved?: () => void;
+}
+
+export default function ActivityForm({ activity, initialDate, onSaved }: ActivityFormProps = {}) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const units = useUnitPreferences();
+
+  const [formData, setFormData] = useState<ActivityFormData>(() =>
+    activity ? fromActivity(activity) : createEmptyForm(initialDate),
+  );
 
-  const [formData, setFormData] = useState({
-    transportType: "",
-    transportDistance: "",
-    electricityUsage: "",
-    naturalGasUsage: "",
-    beefServings: "",
-    chickenServings: "",
-    vegetableServings: "",
+  const { data: dateRange } = useQuery<LoggableDateRange>({
+    queryKey: ["/api/activities/date-range"],
   });
 
   const mutation = useMutation({
-    mutationFn: async (data: typeof formData) => {
-      const payload = {
-        transportType: data.transportType || null,
-        transportDistance: data.transportDistance ? parseFloat(data.transportDistance) : null,
-        electricityUsage: data.electricityUsage ? parseFloat(data.electricityUsage) : null,
-        naturalGasUsage: data.naturalGasUsage ? parseFloat(data.naturalGasUsage) : null,
-        beefServings: data.beefServings ? parseInt(data.beefServings) : 0,
-        chickenServings: data.chickenServings ? parseInt(data.chickenServings) : 0,
-        vegetableServings: data.vegetableServings ? parseInt(data.vegetableServings) : 0,
-      };
-
-      await apiRequest("POST", "/api/activities", payload);
+    mutationFn: async (data: ActivityFormData) => {
+      // Saving a reviewed draft confirms it
+      const response = activity
+        ? await apiRequest("PATCH", `/api/activities/${activity.id}`, { ...toActivityPayload(data, foods), status: "confirmed" })
+        : await apiRequest("POST", "/api/activities", toActivityPayload(data, foods));
+      return (await response.json()) as { merged?: boolean };
     },
-    onSuccess: () => {
+    onSuccess: (result, data) => {
+      const isToday = data.date === todayDateString();
+      const dayLabel = isToday ? "today" : format(parseISO(data.date), "MMMM d");
       toast({
-        title: "Activity Logged",
-        description: "Your activity has been recorded and emissions calculated.",
+        title:
+          activity?.status === "draft"
+            ? "Draft Confirmed"
+            : activity
+              ? "Activity Updated"
+              : result.merged
+                ? isToday
+                  ? "Added to Today's Log"
+                  : `Added to ${dayLabel}'s Log`
+                : "Activity Logged",
+        description: activity
+          ? "Your changes have been saved and emissions recalculated."
+          : result.merged
+            ? `This was combined with what you already logged for ${dayLabel} and emissions recalculated.`
+            : "Your activity has been recorded and emissions calculated.",
       });
       
       // Reset form
-      setFormData({
-        transportType: "",
-        transportDistance: "",
-        electricityUsage: "",
-        naturalGasUsage: "",
-        beefServings: "",
-        chickenServings: "",
-        vegetableServings: "",
-      });
+      if (!activity) setFormData(createEmptyForm(initialDate));
+      onSaved?.();
 
       // Invalidate and refetch dashboard data
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
       queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
     },
     onError: (error) => {
@@ -73,7 +258,11 @@ export default function ActivityForm() {
       
       toast({
         title: "Error",
-        description: "Failed to log activity. Please try again.",
+        description: error.message.startsWith("409")
+          ? "There is already an activity for that date. Edit that day instead."
+          : activity
+            ? "Failed to update activity. Please try again."
+            : "Failed to log activity. Please try again.",
         variant: "destructive",
       });
     },
@@ -84,6 +273,53 @@ export default function ActivityForm() {
     mutation.mutate(formData);
   };
 
+  // Registry factors in effect on the chosen date, so the preview matches what
+  // the server stores for a backdated entry
+  const { data: factorSet } = useQuery<FactorSet>({
+    queryKey: ["/api/emission-factors", formData.date],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/emission-factors?date=${encodeURIComponent(formData.date)}`);
+      return (await res.json()) as FactorSet;
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  const { data: foods = [] } = useQuery<FoodItemWithFactor[]>({
+    queryKey: ["/api/foods"],
+  });
+
+  const findVehicle = (vehicleId: string | number | null | undefined) =>
+    vehicles.find((vehicle) => String(vehicle.id) === String(vehicleId));
+
+  // Preview uses the same engine and unit conversion as the server, so it
+  // matches what gets stored
+  const canonicalPayload = activityToCanonical(toActivityPayload(formData, foods), units);
+  const preview = calculateEmissions(
+    {
+      ...canonicalPayload,
+      trips: canonicalPayload.trips.map((trip) => ({ ...trip, vehicle: findVehicle(trip.vehicleId) })),
+    },
+    factorSet?.factors,
+  );
+
+  // Everything but the date can be saved as a template
+  const { date, ...templatePayload } = toActivityPayload(formData, foods);
+  const hasInputs =
+    templatePayload.trips.length > 0 ||
+    templatePayload.mealItems.length > 0 ||
+    Object.values(templatePayload).some((value) => typeof value === "number");
+
+  const getTitle = () => {
+    if (activity?.status === "draft") return "Review Draft";
+    if (activity) return "Edit Activity";
+    if (formData.date === todayDateString()) return "Log Today's Activity";
+    return `Log Activity for ${format(parseISO(formData.date), "MMMM d, yyyy")}`;
+  };
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({
       ...prev,
@@ -91,48 +327,207 @@ export default function ActivityForm() {
     }));
   };
 
+  const handleTripChange = (index: number, field: keyof TripFormData, value: string | boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      trips: prev.trips.map((trip, i) => (i === index ? { ...trip, [field]: value } : trip)),
+    }));
+  };
+
+  // Picking one of the user's vehicles logs the leg under the vehicle's mode
+  const handleTripModeChange = (index: number, value: string) => {
+    const vehicle = value.startsWith(VEHICLE_OPTION_PREFIX)
+      ? findVehicle(value.slice(VEHICLE_OPTION_PREFIX.length))
+      : undefined;
+    setFormData(prev => ({
+      ...prev,
+      trips: prev.trips.map((trip, i) =>
+        i === index
+          ? {
+              ...trip,
+              mode: vehicle ? getVehicleTransportType(vehicle) : value,
+              vehicleId: vehicle ? String(vehicle.id) : "",
+            }
+          : trip,
+      ),
+    }));
+  };
+
+  const addTrip = () => {
+    setFormData(prev => ({ ...prev, trips: [...prev.trips, EMPTY_TRIP] }));
+  };
+
+  const getFlightDistanceLabel = (trip: TripFormData) => {
+    const distance = getFlightDistance(trip.origin.toUpperCase(), trip.destination.toUpperCase());
+    if (distance === null) return "Unknown airport pair";
+    return formatQuantity(fromMiles(distance, units.distanceUnit), units.distanceUnit);
+  };
+
+  const removeTrip = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      trips: prev.trips.length > 1 ? prev.trips.filter((_, i) => i !== index) : [EMPTY_TRIP],
+    }));
+  };
+
   return (
     <Card className="shadow-lg">
       <CardContent className="p-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-6">Log Today's Activity</h3>
+        <h3 className="text-lg font-semibold text-gray-900 mb-6">{getTitle()}</h3>
         
         <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <Label htmlFor="activityDate" className="text-sm font-medium text-gray-700 mb-2 block">
+              Date
+            </Label>
+            <DatePicker
+              id="activityDate"
+              value={formData.date}
+              range={dateRange}
+              onChange={(date) => handleInputChange('date', date)}
+            />
+          </div>
+
           {/* Transport Section */}
           <div>
             <h4 className="font-medium text-gray-900 mb-3">Transportation</h4>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="transportType" className="text-sm font-medium text-gray-700 mb-2">
-                  Vehicle Type
-                </Label>
-                <Select value={formData.transportType} onValueChange={(value) => handleInputChange('transportType', value)}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select vehicle type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="car_gasoline">Car (Gasoline)</SelectItem>
-                    <SelectItem value="car_electric">Car (Electric)</SelectItem>
-                    <SelectItem value="bus">Bus</SelectItem>
-                    <SelectItem value="train">Train</SelectItem>
-                    <SelectItem value="bike">Bike</SelectItem>
-                    <SelectItem value="walking">Walking</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <Label htmlFor="transportDistance" className="text-sm font-medium text-gray-700 mb-2">
-                  Distance (miles)
-                </Label>
-                <Input
-                  id="transportDistance"
-                  type="number"
-                  step="0.1"
-                  min="0"
-                  placeholder="Enter miles traveled"
-                  value={formData.transportDistance}
-                  onChange={(e) => handleInputChange('transportDistance', e.target.value)}
-                />
-              </div>
+            <div className="space-y-4">
+              {formData.trips.map((trip, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-4 items-end">
+                  <div>
+                    <Label htmlFor={`tripMode-${index}`} className="text-sm font-medium text-gray-700 mb-2">
+                      Vehicle Type
+                    </Label>
+                    <Select
+                      value={trip.vehicleId ? `${VEHICLE_OPTION_PREFIX}${trip.vehicleId}` : trip.mode}
+                      onValueChange={(value) => handleTripModeChange(index, value)}
+                    >
+                      <SelectTrigger id={`tripMode-${index}`}>
+                        <SelectValue placeholder="Select vehicle type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {vehicles.length > 0 && (
+                          <SelectGroup>
+                            <SelectLabel>My vehicles</SelectLabel>
+                            {vehicles.map((vehicle) => (
+                              <SelectItem key={vehicle.id} value={`${VEHICLE_OPTION_PREFIX}${vehicle.id}`}>
+                                {vehicle.name}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        )}
+                        <SelectGroup>
+                          {vehicles.length > 0 && <SelectLabel>Transport types</SelectLabel>}
+                          {TRANSPORT_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{TRANSPORT_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {trip.mode === "flight" ? (
+                    <>
+                      <div>
+                        <Label htmlFor={`tripOrigin-${index}`} className="text-sm font-medium text-gray-700 mb-2">
+                          From (IATA)
+                        </Label>
+                        <Input
+                          id={`tripOrigin-${index}`}
+                          maxLength={3}
+                          placeholder="JFK"
+                          className="uppercase"
+                          value={trip.origin}
+                          onChange={(e) => handleTripChange(index, 'origin', e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor={`tripDestination-${index}`} className="text-sm font-medium text-gray-700 mb-2">
+                          To (IATA)
+                        </Label>
+                        <Input
+                          id={`tripDestination-${index}`}
+                          maxLength={3}
+                          placeholder="LHR"
+                          className="uppercase"
+                          value={trip.destination}
+                          onChange={(e) => handleTripChange(index, 'destination', e.target.value)}
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div>
+                        <Label htmlFor={`tripDistance-${index}`} className="text-sm font-medium text-gray-700 mb-2">
+                          Distance ({UNIT_LABELS[units.distanceUnit]})
+                        </Label>
+                        <Input
+                          id={`tripDistance-${index}`}
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          placeholder={`Enter ${UNIT_LABELS[units.distanceUnit]} traveled`}
+                          value={trip.distance}
+                          onChange={(e) => handleTripChange(index, 'distance', e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor={`tripPassengers-${index}`} className="text-sm font-medium text-gray-700 mb-2">
+                          Passengers
+                        </Label>
+                        <Input
+                          id={`tripPassengers-${index}`}
+                          type="number"
+                          min="1"
+                          placeholder={String(findVehicle(trip.vehicleId)?.defaultOccupancy ?? 1)}
+                          disabled={!SHARED_VEHICLE_TYPES.includes(trip.mode as TransportType)}
+                          value={trip.passengers}
+                          onChange={(e) => handleTripChange(index, 'passengers', e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeTrip(index)}
+                    aria-label="Remove leg"
+                  >
+                    <Trash2 className="w-4 h-4 text-gray-500" />
+                  </Button>
+                  {trip.mode === "flight" && (
+                    <div className="md:col-span-4 grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+                      <Select value={trip.cabinClass} onValueChange={(value) => handleTripChange(index, 'cabinClass', value)}>
+                        <SelectTrigger aria-label="Cabin class">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CABIN_CLASSES.map((cabinClass) => (
+                            <SelectItem key={cabinClass} value={cabinClass}>{CABIN_CLASS_LABELS[cabinClass]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`tripRadiativeForcing-${index}`}
+                          checked={trip.radiativeForcing}
+                          onCheckedChange={(checked) => handleTripChange(index, 'radiativeForcing', checked === true)}
+                        />
+                        <Label htmlFor={`tripRadiativeForcing-${index}`} className="text-sm text-gray-700">
+                          Include radiative forcing
+                        </Label>
+                      </div>
+                      {trip.origin.length === 3 && trip.destination.length === 3 && (
+                        <p className="text-sm text-gray-500">{getFlightDistanceLabel(trip)}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={addTrip}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Leg
+              </Button>
             </div>
           </div>
 
@@ -156,7 +551,7 @@ export default function ActivityForm() {
               </div>
               <div>
                 <Label htmlFor="naturalGasUsage" className="text-sm font-medium text-gray-700 mb-2">
-                  Natural Gas (therms)
+                  Natural Gas ({UNIT_LABELS[units.gasUnit]})
                 </Label>
                 <Input
                   id="naturalGasUsage"
@@ -168,65 +563,92 @@ export default function ActivityForm() {
                   onChange={(e) => handleInputChange('naturalGasUsage', e.target.value)}
                 />
               </div>
-            </div>
-          </div>
-
-          {/* Food Section */}
-          <div>
-            <h4 className="font-medium text-gray-900 mb-3">Food Consumption</h4>
-            <div className="space-y-3">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="beefServings" className="text-sm font-medium text-gray-700">
-                  Beef (servings)
+              <div>
+                <Label htmlFor="heatingOilUsage" className="text-sm font-medium text-gray-700 mb-2">
+                  Heating Oil ({UNIT_LABELS[units.volumeUnit]})
                 </Label>
                 <Input
-                  id="beefServings"
+                  id="heatingOilUsage"
                   type="number"
+                  step="0.1"
                   min="0"
-                  max="10"
-                  className="w-20"
-                  value={formData.beefServings}
-                  onChange={(e) => handleInputChange('beefServings', e.target.value)}
+                  placeholder="Daily usage"
+                  value={formData.heatingOilUsage}
+                  onChange={(e) => handleInputChange('heatingOilUsage', e.target.value)}
                 />
               </div>
-              <div className="flex items-center justify-between">
-                <Label htmlFor="chickenServings" className="text-sm font-medium text-gray-700">
-                  Chicken (servings)
+              <div>
+                <Label htmlFor="propaneUsage" className="text-sm font-medium text-gray-700 mb-2">
+                  Propane ({UNIT_LABELS[units.volumeUnit]})
                 </Label>
                 <Input
-                  id="chickenServings"
+                  id="propaneUsage"
                   type="number"
+                  step="0.1"
                   min="0"
-                  max="10"
-                  className="w-20"
-                  value={formData.chickenServings}
-                  onChange={(e) => handleInputChange('chickenServings', e.target.value)}
+                  placeholder="Daily usage"
+                  value={formData.propaneUsage}
+                  onChange={(e) => handleInputChange('propaneUsage', e.target.value)}
                 />
               </div>
-              <div className="flex items-center justify-between">
-                <Label htmlFor="vegetableServings" className="text-sm font-medium text-gray-700">
-                  Vegetables (servings)
+              <div>
+                <Label htmlFor="woodUsage" className="text-sm font-medium text-gray-700 mb-2">
+                  Wood (kg)
                 </Label>
                 <Input
-                  id="vegetableServings"
+                  id="woodUsage"
                   type="number"
+                  step="0.1"
                   min="0"
-                  max="10"
-                  className="w-20"
-                  value={formData.vegetableServings}
-                  onChange={(e) => handleInputChange('vegetableServings', e.target.value)}
+                  placeholder="Firewood burned"
+                  value={formData.woodUsage}
+                  onChange={(e) => handleInputChange('woodUsage', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="districtHeatUsage" className="text-sm font-medium text-gray-700 mb-2">
+                  District Heat (kWh)
+                </Label>
+                <Input
+                  id="districtHeatUsage"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  placeholder="Heat delivered"
+                  value={formData.districtHeatUsage}
+                  onChange={(e) => handleInputChange('districtHeatUsage', e.target.value)}
                 />
               </div>
             </div>
           </div>
 
-          <Button 
-            type="submit" 
-            className="w-full bg-emerald-500 hover:bg-emerald-600"
-            disabled={mutation.isPending}
-          >
-            {mutation.isPending ? "Calculating..." : "Log Activity & Calculate Impact"}
-          </Button>
+          {/* Food Section */}
+          <div>
+            <h4 className="font-medium text-gray-900 mb-3">Food Consumption</h4>
+            <MealEntry
+              foods={foods}
+              items={formData.mealItems}
+              onChange={(mealItems) => setFormData(prev => ({ ...prev, mealItems }))}
+            />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg bg-emerald-50 p-4">
+            <span className="text-sm font-medium text-gray-700">Estimated impact</span>
+            <span className="text-lg font-semibold text-emerald-600">
+              {preview.totalEmissions.toFixed(2)} kg CO2e
+            </span>
+          </div>
+
+          <div className="flex flex-col-reverse sm:flex-row gap-3">
+            <SaveTemplateDialog payload={templatePayload} disabled={!hasInputs} />
+            <Button 
+              type="submit" 
+              className="flex-1 bg-emerald-500 hover:bg-emerald-600"
+              disabled={mutation.isPending}
+            >
+              {mutation.isPending ? "Calculating..." : activity?.status === "draft" ? "Save & Confirm" : activity ? "Save Changes" : "Log Activity & Calculate Impact"}
+            </Button>
+          </div>
         </form>
       </CardContent>
     </Card>
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useUnitPreferences } from "@/hooks/useUnitPreferences";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { parseCsv } from "@shared/csv";
+import { UNIT_LABELS } from "@shared/units";
+import { GROUND_TRANSPORT_TYPES } from "@shared/emissions";
+import { IMPORT_FIELDS, type ImportField, type ImportReport, type ImportRowStatus } from "@shared/schema";
+
+// Select value for a field that is not imported
+const SKIP = "__skip";
+
+type ImportFile = {
+  name: string;
+  csv: string;
+  headers: string[];
+  rowCount: number;
+};
+
+type ColumnMapping = Partial<Record<ImportField, string>>;
+
+const STATUS_BADGES: Record<ImportRowStatus, { label: string; className: string }> = {
+  accepted: { label: "Accepted", className: "bg-emerald-100 text-emerald-800 hover:bg-emerald-100" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+  duplicate: { label: "Duplicate date", className: "bg-amber-100 text-amber-800 hover:bg-amber-100" },
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Pre-select the column whose header matches a field name, e.g. "Electricity
+// Usage" or "electricity_usage" for electricityUsage
+function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const match = headers.find((header) => normalizeHeader(header) === normalizeHeader(field));
+    if (match) mapping[field] = match.trim();
+  }
+  return mapping;
+}
+
+interface ActivityImportProps {
+  onDone?: () => void;
+}
+
+export default function ActivityImport({ onDone }: ActivityImportProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const units = useUnitPreferences();
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const fieldLabels: Record<ImportField, string> = {
+    date: "Date",
+    transportType: "Transport type",
+    transportDistance: `Distance (${UNIT_LABELS[units.distanceUnit]})`,
+    electricityUsage: "Electricity (kWh)",
+    naturalGasUsage: `Natural gas (${UNIT_LABELS[units.gasUnit]})`,
+    heatingOilUsage: `Heating oil (${UNIT_LABELS[units.volumeUnit]})`,
+    propaneUsage: `Propane (${UNIT_LABELS[units.volumeUnit]})`,
+    woodUsage: "Wood (kg)",
+    districtHeatUsage: "District heat (kWh)",
+    beefServings: "Beef servings",
+    chickenServings: "Chicken servings",
+    vegetableServings: "Vegetable servings",
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", "/api/import", { csv: file?.csv, mapping, dryRun });
+      return (await response.json()) as ImportReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (!result.committed) return;
+
+      toast({
+        title: "Import Complete",
+        description: `${result.accepted} ${result.accepted === 1 ? "activity was" : "activities were"} imported as drafts. Confirm them in your activity log to count them toward your totals.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      onDone?.();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      toast({
+        title: "Error",
+        description: error.message.startsWith("400")
+          ? "The file or column mapping could not be read. Check the mapping and try again."
+          : error.message.startsWith("409")
+            ? "Some of these days were just logged. Preview the file again."
+            : "Failed to import activities. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (selected: File | undefined) => {
+    setReport(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+
+    const csv = await selected.text();
+    const [headers = [], ...rows] = parseCsv(csv);
+    setFile({ name: selected.name, csv, headers, rowCount: rows.length });
+    setMapping(guessMapping(headers));
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    setReport(null);
+    setMapping((current) => {
+      const next = { ...current };
+      if (column === SKIP) delete next[field];
+      else next[field] = column;
+      return next;
+    });
+  };
+
+  // Columns are mapped by header name, so blank and repeated headers can't be chosen
+  const columnNames = Array.from(new Set(file?.headers.map((header) => header.trim()).filter(Boolean)));
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Import Activities</h3>
+        <p className="text-sm text-gray-600">
+          Upload a CSV with one row per day, then choose which column holds each value.
+          Quantities are read in your preferred units.
+        </p>
+      </div>
+
+      <div>
+        <Label htmlFor="importFile" className="text-sm font-medium text-gray-700 mb-2 block">
+          CSV file
+        </Label>
+        <Input
+          id="importFile"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+        />
+        {file && (
+          <p className="text-xs text-gray-500 mt-1">
+            {file.rowCount} {file.rowCount === 1 ? "row" : "rows"} in {file.name}
+          </p>
+        )}
+      </div>
+
+      {file && !report && (
+        <div className="space-y-3">
+          <h4 className="font-medium text-gray-900">Column mapping</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field} className="grid grid-cols-2 gap-2 items-center">
+                <Label htmlFor={`map-${field}`} className="text-sm text-gray-700">
+                  {fieldLabels[field]}
+                  {field === "date" && <span className="text-red-500"> *</span>}
+                </Label>
+                <Select value={mapping[field] ?? SKIP} onValueChange={(value) => updateMapping(field, value)}>
+                  <SelectTrigger id={`map-${field}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SKIP}>Not imported</SelectItem>
+                    {columnNames.map((header) => (
+                      <SelectItem key={header} value={header}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          {mapping.transportType && (
+            <p className="text-xs text-gray-500">
+              Transport types must be one of: {GROUND_TRANSPORT_TYPES.join(", ")}.
+            </p>
+          )}
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              onClick={() => importMutation.mutate(true)}
+              disabled={!mapping.date || importMutation.isPending}
+              className="bg-emerald-500 hover:bg-emerald-600"
+            >
+              {importMutation.isPending ? "Checking..." : "Preview Import"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Badge className={STATUS_BADGES.accepted.className}>{report.accepted} accepted</Badge>
+            <Badge className={STATUS_BADGES.rejected.className}>{report.rejected} rejected</Badge>
+            <Badge className={STATUS_BADGES.duplicate.className}>{report.duplicate} duplicate dates</Badge>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Emissions</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow key={row.row}>
+                    <TableCell>{row.row}</TableCell>
+                    <TableCell>{row.date ?? "—"}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGES[row.status].className}>{STATUS_BADGES[row.status].label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {row.totalEmissions !== null ? `${row.totalEmissions.toFixed(2)} kg CO2e` : "—"}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{row.errors.join("; ")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {!report.committed && (
+            <div className="flex justify-between">
+              <Button type="button" variant="outline" onClick={() => setReport(null)}>
+                Back to Mapping
+              </Button>
+              <Button
+                type="button"
+                onClick={() => importMutation.mutate(false)}
+                disabled={report.accepted === 0 || importMutation.isPending}
+                className="bg-emerald-500 hover:bg-emerald-600"
+              >
+                {importMutation.isPending
+                  ? "Importing..."
+                  : `Import ${report.accepted} ${report.accepted === 1 ? "Activity" : "Activities"}`}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Play, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { TRANSPORT_LABELS } from "@/lib/carbonCalculations";
+import { todayDateString } from "@/components/DatePicker";
+import { describeRecurrence } from "@/components/SaveTemplateDialog";
+import { ENERGY_USAGE_FIELDS } from "@shared/emissions";
+import type { ActivityTemplate } from "@shared/schema";
+
+function describeTemplate({ payload }: ActivityTemplate) {
+  const parts: string[] = [];
+  const modes = Array.from(new Set((payload.trips ?? []).map((trip) => TRANSPORT_LABELS[trip.mode] ?? trip.mode)));
+  if (modes.length > 0) parts.push(modes.join(", "));
+  if (Object.values(ENERGY_USAGE_FIELDS).some((field) => payload[field])) parts.push("Energy");
+  const meals = payload.mealItems?.length ?? 0;
+  if (meals > 0) parts.push(`${meals} ${meals === 1 ? "food" : "foods"}`);
+  return parts.join(" · ") || "Nothing logged";
+}
+
+// Saved templates on the dashboard, each logged for today in one click
+export default function ActivityTemplates() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [] } = useQuery<ActivityTemplate[]>({
+    queryKey: ["/api/activity-templates"],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const applyMutation = useMutation({
+    mutationFn: async (template: ActivityTemplate) => {
+      const response = await apiRequest("POST", `/api/activity-templates/${template.id}/apply`, {
+        date: todayDateString(),
+      });
+      return (await response.json()) as { merged: boolean };
+    },
+    onSuccess: (result, template) => {
+      toast({
+        title: result.merged ? "Added to Today's Log" : "Activity Logged",
+        description: `${template.name} was logged for today.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    },
+    onError: (error) =>
+      handleError(
+        error,
+        error.message.startsWith("409")
+          ? "An activity was logged for today at the same time. Please try again."
+          : "Failed to apply template. Please try again.",
+      ),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: number) => {
+      await apiRequest("DELETE", `/api/activity-templates/${templateId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-templates"] });
+    },
+    onError: (error) => handleError(error, "Failed to remove template. Please try again."),
+  });
+
+  return (
+    <Card className="shadow-lg">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Log</h3>
+        {templates.length > 0 ? (
+          <div className="space-y-3">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{template.name}</p>
+                  <p className="text-xs text-gray-500">{describeTemplate(template)}</p>
+                  <div className="flex items-center gap-2 mt-1">
+                    <span className="text-xs text-gray-500">{describeRecurrence(template.recurrenceDays)}</span>
+                    {template.autoFill && (
+                      <Badge variant="secondary" className="text-xs bg-blue-50 text-blue-700 hover:bg-blue-50">
+                        Auto-fill
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => applyMutation.mutate(template)}
+                    disabled={applyMutation.isPending}
+                    className="bg-emerald-500 hover:bg-emerald-600"
+                  >
+                    <Play className="w-3 h-3 mr-1" />
+                    Apply
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(template.id)}
+                    disabled={deleteMutation.isPending}
+                    aria-label={`Remove ${template.name}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-gray-500" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Save a day you log often, like your commute, as a template to log it again in one click.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarDays } from "lucide-react";
+
+// Activity dates are plain YYYY-MM-DD strings in the user's local calendar
+export const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+export const todayDateString = () => toDateString(new Date());
+
+export interface LoggableDateRange {
+  earliestDate: string;
+  latestDate: string;
+  backfillDays: number;
+}
+
+interface DatePickerProps {
+  id?: string;
+  value?: string;
+  onChange: (date: string) => void;
+  range?: LoggableDateRange;
+  placeholder?: string;
+}
+
+export default function DatePicker({ id, value, onChange, range, placeholder = "Pick a date" }: DatePickerProps) {
+  const [open, setOpen] = useState(false);
+  const selected = value ? parseISO(value) : undefined;
+
+  // The server accepts up to today in the furthest-ahead time zone; the
+  // picker stops at the user's own today
+  const latest = range && range.latestDate < todayDateString() ? range.latestDate : todayDateString();
+  const disabled = [
+    { after: parseISO(latest) },
+    ...(range ? [{ before: parseISO(range.earliestDate) }] : []),
+  ];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button id={id} type="button" variant="outline" className="w-full sm:w-64 justify-start font-normal">
+          <CalendarDays className="w-4 h-4 mr-2 text-gray-500" />
+          {selected ? format(selected, "EEEE, MMMM d, yyyy") : placeholder}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={selected}
+          defaultMonth={selected}
+          disabled={disabled}
+          onSelect={(date) => {
+            if (!date) return;
+            onChange(toDateString(date));
+            setOpen(false);
+          }}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
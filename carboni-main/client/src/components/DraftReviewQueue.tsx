@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { CheckCheck, ClipboardList, Pencil } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { TRANSPORT_LABELS } from "@/lib/carbonCalculations";
+import { ENERGY_SOURCES, ENERGY_USAGE_FIELDS } from "@shared/emissions";
+import type { ActivityPage, ActivityReviewAction, ActivityWithDetails } from "@shared/schema";
+
+// Largest number of drafts listed at once; confirming some brings in the rest
+const QUEUE_LIMIT = 100;
+
+function describeDraft(activity: ActivityWithDetails) {
+  const parts: string[] = [];
+  const modes = Array.from(new Set(activity.trips.map((trip) => TRANSPORT_LABELS[trip.mode] ?? trip.mode)));
+  if (modes.length > 0) parts.push(modes.join(", "));
+  if (ENERGY_SOURCES.some((source) => activity[ENERGY_USAGE_FIELDS[source]])) parts.push("Energy");
+  if (activity.mealItems.length > 0) parts.push(`${activity.mealItems.length} ${activity.mealItems.length === 1 ? "food" : "foods"}`);
+  return parts.join(" · ") || "Nothing logged";
+}
+
+interface DraftReviewQueueProps {
+  onEdit: (activity: ActivityWithDetails) => void;
+}
+
+// Days filled in by templates or imports, waiting for the user to check them
+// before they count toward totals and rankings
+export default function DraftReviewQueue({ onEdit }: DraftReviewQueueProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const { data } = useQuery({
+    queryKey: ["/api/activities", "drafts"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/activities?status=draft&sort=date_asc&limit=${QUEUE_LIMIT}`);
+      return (await res.json()) as ActivityPage;
+    },
+  });
+  const drafts = data?.activities ?? [];
+  // Drop selections that left the queue, e.g. when edited and confirmed
+  const selectedIds = selected.filter((id) => drafts.some((draft) => draft.id === id));
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ ids, action }: { ids: number[]; action: ActivityReviewAction }) => {
+      const response = await apiRequest("POST", "/api/activities/review", { ids, action });
+      return (await response.json()) as { updated: number };
+    },
+    onSuccess: ({ updated }, { action }) => {
+      toast({
+        title: action === "confirm" ? "Drafts Confirmed" : "Drafts Discarded",
+        description: action === "confirm"
+          ? `${updated} ${updated === 1 ? "day now counts" : "days now count"} toward your totals and ranking.`
+          : `${updated} ${updated === 1 ? "draft was" : "drafts were"} removed.`,
+      });
+      setSelected([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      toast({
+        title: "Error",
+        description: "Failed to update drafts. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (drafts.length === 0) return null;
+
+  const allSelected = selectedIds.length === drafts.length;
+  const toggle = (id: number, checked: boolean) => {
+    setSelected((current) => (checked ? [...current, id] : current.filter((value) => value !== id)));
+  };
+
+  return (
+    <Card className="shadow-lg mb-6 border-amber-200">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <ClipboardList className="w-5 h-5 text-amber-600" />
+              <span>Review Drafts ({data?.nextCursor ? `${QUEUE_LIMIT}+` : drafts.length})</span>
+            </CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              These days were filled in for you and don't count toward your totals or ranking until you confirm them.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" disabled={selectedIds.length === 0 || reviewMutation.isPending}>
+                  Discard
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>
+                    Discard {selectedIds.length} {selectedIds.length === 1 ? "draft" : "drafts"}?
+                  </AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Everything filled in for these days will be removed. This cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-red-600 hover:bg-red-700"
+                    onClick={() => reviewMutation.mutate({ ids: selectedIds, action: "discard" })}
+                  >
+                    Discard
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+            <Button
+              onClick={() => reviewMutation.mutate({ ids: selectedIds, action: "confirm" })}
+              disabled={selectedIds.length === 0 || reviewMutation.isPending}
+              className="bg-emerald-500 hover:bg-emerald-600"
+            >
+              <CheckCheck className="w-4 h-4 mr-2" />
+              Confirm {selectedIds.length > 0 ? selectedIds.length : ""}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-80 overflow-y-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">
+                  <Checkbox
+                    aria-label="Select all drafts"
+                    checked={allSelected}
+                    onCheckedChange={(checked) => setSelected(checked === true ? drafts.map((draft) => draft.id) : [])}
+                  />
+                </TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Filled in</TableHead>
+                <TableHead>Emissions</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drafts.map((draft) => (
+                <TableRow key={draft.id}>
+                  <TableCell>
+                    <Checkbox
+                      aria-label={`Select ${draft.date}`}
+                      checked={selectedIds.includes(draft.id)}
+                      onCheckedChange={(checked) => toggle(draft.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell>{draft.date}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{describeDraft(draft)}</TableCell>
+                  <TableCell>{draft.totalEmissions.toFixed(2)} kg CO2e</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => onEdit(draft)} aria-label={`Edit ${draft.date}`}>
+                      <Pencil className="w-4 h-4 text-gray-500" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { TrendingUp } from "lucide-react";
+import type { Goal, GoalForecast } from "@shared/schema";
+
+const formatValue = (goal: Goal, value: number) => {
+  if (goal.type === "monthly_target") return `${value.toFixed(1)} kg CO2e`;
+  return value >= 0 ? `${value.toFixed(1)}% lower` : `${Math.abs(value).toFixed(1)}% higher`;
+};
+
+interface GoalForecastSummaryProps {
+  goal: Goal;
+  compact?: boolean;
+}
+
+// Where an active goal is heading by the end of its window and, when it is off
+// track, the daily cut that would still meet the target
+export default function GoalForecastSummary({ goal, compact = false }: GoalForecastSummaryProps) {
+  const { data: forecast } = useQuery<GoalForecast>({
+    queryKey: ["/api/goals", goal.id, "forecast"],
+    retry: false,
+  });
+
+  // Reduction goals can't be projected until there is a baseline to compare with
+  if (!forecast || (goal.type !== "monthly_target" && goal.baselineValue === null)) return null;
+
+  // low and high are the ends of an 80% band; for reduction goals low is the smaller cut
+  const range =
+    forecast.low !== forecast.high ? `${formatValue(goal, forecast.low)} – ${formatValue(goal, forecast.high)}` : null;
+
+  let advice: string;
+  if (forecast.daysRemaining === 0) {
+    advice = "The period is over; the result is final once it settles.";
+  } else if (forecast.onTrack) {
+    advice = `At about ${forecast.expectedDaily.toFixed(1)} kg CO2e a day you'll meet the target.`;
+  } else if (forecast.requiredDailyReduction === null) {
+    advice = "The target is out of reach for this period.";
+  } else {
+    advice = `Cut ${forecast.requiredDailyReduction.toFixed(1)} kg CO2e a day over the next ${forecast.daysRemaining} ${
+      forecast.daysRemaining === 1 ? "day" : "days"
+    } to meet the target.`;
+  }
+
+  return (
+    <div className={compact ? "mt-1 space-y-0.5" : "rounded-md bg-gray-50 p-3 space-y-1"}>
+      <div className="flex items-center justify-between">
+        <span className={`flex items-center font-medium text-gray-700 ${compact ? "text-xs" : "text-sm"}`}>
+          <TrendingUp className={compact ? "w-3 h-3 mr-1" : "w-4 h-4 mr-1"} />
+          Projected {formatValue(goal, forecast.projected)}
+        </span>
+        <Badge
+          className={
+            forecast.onTrack
+              ? "bg-emerald-100 text-emerald-800 hover:bg-emerald-100"
+              : "bg-amber-100 text-amber-800 hover:bg-amber-100"
+          }
+        >
+          {forecast.onTrack ? "On track" : "Off track"}
+        </Badge>
+      </div>
+      {!compact && range && <p className="text-xs text-gray-500">Likely range: {range}</p>}
+      <p className="text-xs text-gray-500">{advice}</p>
+    </div>
+  );
+}
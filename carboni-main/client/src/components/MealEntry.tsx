@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Plus, Trash2 } from "lucide-react";
+import type { FoodItemWithFactor } from "@shared/schema";
+import { FOOD_CATEGORIES, FOOD_CATEGORY_LABELS } from "@shared/foods";
+
+// Portion value for entering a raw weight instead of a number of portions
+export const GRAMS_PORTION = "grams";
+
+export type MealFormItem = {
+  foodKey: string;
+  portion: string;
+  quantity: string;
+  // Size of the portion when it was logged, for portions since removed from the catalog
+  portionGrams?: number;
+};
+
+// Mass of a meal item in grams, or null while it is incomplete
+export function getMealItemGrams(item: MealFormItem, foods: FoodItemWithFactor[]): number | null {
+  const quantity = parseFloat(item.quantity);
+  if (!quantity || quantity <= 0) return null;
+  if (item.portion === GRAMS_PORTION) return quantity;
+
+  const food = foods.find((f) => f.key === item.foodKey);
+  const portionGrams = food?.portions.find((p) => p.label === item.portion)?.grams ?? item.portionGrams;
+  return portionGrams ? portionGrams * quantity : null;
+}
+
+interface MealEntryProps {
+  foods: FoodItemWithFactor[];
+  items: MealFormItem[];
+  onChange: (items: MealFormItem[]) => void;
+}
+
+export default function MealEntry({ foods, items, onChange }: MealEntryProps) {
+  const [open, setOpen] = useState(false);
+
+  const findFood = (key: string) => foods.find((food) => food.key === key);
+
+  const addItem = (food: FoodItemWithFactor) => {
+    onChange([
+      ...items,
+      { foodKey: food.key, portion: food.portions[0]?.label ?? GRAMS_PORTION, quantity: "1" },
+    ]);
+    setOpen(false);
+  };
+
+  const updateItem = (index: number, field: keyof MealFormItem, value: string) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => {
+        const food = findFood(item.foodKey);
+        const grams = getMealItemGrams(item, foods);
+        return (
+          <div key={index} className="grid grid-cols-[2fr_1fr_2fr_auto] gap-3 items-center">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{food?.name ?? item.foodKey}</p>
+              {grams !== null && item.portion !== GRAMS_PORTION && (
+                <p className="text-xs text-gray-500">{Math.round(grams)} g</p>
+              )}
+            </div>
+            <Input
+              type="number"
+              step="0.5"
+              min="0"
+              aria-label={`${food?.name ?? item.foodKey} quantity`}
+              value={item.quantity}
+              onChange={(e) => updateItem(index, 'quantity', e.target.value)}
+            />
+            <Select value={item.portion} onValueChange={(value) => updateItem(index, 'portion', value)}>
+              <SelectTrigger aria-label="Portion">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {food?.portions.map((portion) => (
+                  <SelectItem key={portion.label} value={portion.label}>
+                    {portion.label} ({portion.grams} g)
+                  </SelectItem>
+                ))}
+                {item.portionGrams && item.portion !== GRAMS_PORTION && !food?.portions.some((p) => p.label === item.portion) && (
+                  <SelectItem value={item.portion}>
+                    {item.portion} ({Math.round(item.portionGrams)} g)
+                  </SelectItem>
+                )}
+                <SelectItem value={GRAMS_PORTION}>Grams</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeItem(index)}
+              aria-label={`Remove ${food?.name ?? item.foodKey}`}
+            >
+              <Trash2 className="w-4 h-4 text-gray-500" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Food
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-72" align="start">
+          <Command>
+            <CommandInput placeholder="Search foods..." />
+            <CommandList>
+              <CommandEmpty>No foods found.</CommandEmpty>
+              {FOOD_CATEGORIES.map((category) => {
+                const categoryFoods = foods.filter((food) => food.category === category);
+                if (categoryFoods.length === 0) return null;
+                return (
+                  <CommandGroup key={category} heading={FOOD_CATEGORY_LABELS[category]}>
+                    {categoryFoods.map((food) => (
+                      <CommandItem key={food.key} value={`${food.name} ${food.key}`} onSelect={() => addItem(food)}>
+                        <span className="flex-1">{food.name}</span>
+                        {food.kgCo2ePerKg !== null && (
+                          <span className="text-xs text-gray-500">{food.kgCo2ePerKg} kg CO2e/kg</span>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
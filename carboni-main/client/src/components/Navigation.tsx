@@ -54,6 +54,13 @@ export default function Navigation() {
             }`}>
               Goals
             </Link>
+            <Link href="/settings" className={`pb-2 px-1 text-sm font-medium transition-colors ${
+              isActive('/settings') 
+                ? 'text-emerald-500 border-b-2 border-emerald-500' 
+                : 'text-gray-500 hover:text-gray-700'
+            }`}>
+              Settings
+            </Link>
           </nav>
 
           <div className="flex items-center space-x-4">
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { BookmarkPlus } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const sameDays = (a: number[], b: number[]) => a.length === b.length && a.every((day) => b.includes(day));
+
+// Recurrence in words, e.g. "Weekdays" or "Every Mon, Thu"
+export function describeRecurrence(days: number[]): string {
+  if (days.length === 0) return "Not recurring";
+  if (sameDays(days, EVERY_DAY)) return "Every day";
+  if (sameDays(days, WEEKDAYS)) return "Weekdays";
+  if (sameDays(days, [0, 6])) return "Weekends";
+  return `Every ${[...days].sort((a, b) => a - b).map((day) => DAY_LABELS[day]).join(", ")}`;
+}
+
+interface SaveTemplateDialogProps {
+  // Activity inputs from the form in the user's units, without a date
+  payload: Record<string, unknown>;
+  disabled?: boolean;
+}
+
+export default function SaveTemplateDialog({ payload, disabled }: SaveTemplateDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [recurrenceDays, setRecurrenceDays] = useState<number[]>([]);
+  const [autoFill, setAutoFill] = useState(false);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/activity-templates", {
+        name: name.trim(),
+        payload,
+        recurrenceDays,
+        autoFill: recurrenceDays.length > 0 && autoFill,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Template Saved",
+        description: "Apply it from your dashboard to log these activities in one click.",
+      });
+      setOpen(false);
+      setName("");
+      setRecurrenceDays([]);
+      setAutoFill(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-templates"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      toast({
+        title: "Error",
+        description: "Failed to save template. Please check the activity details.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // The dialog is portalled out of the activity form, but React still
+    // bubbles the submit event up to it
+    e.stopPropagation();
+    mutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" disabled={disabled}>
+          <BookmarkPlus className="w-4 h-4 mr-2" />
+          Save as Template
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Save as Template</DialogTitle>
+            <DialogDescription>
+              Save the trips, energy use and meals in this form to log them again in one click.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="templateName">Name</Label>
+            <Input
+              id="templateName"
+              placeholder="e.g. Weekday commute"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Repeats on</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              className="justify-start flex-wrap"
+              value={recurrenceDays.map(String)}
+              onValueChange={(values) => setRecurrenceDays(values.map(Number))}
+            >
+              {DAY_LABELS.map((label, day) => (
+                <ToggleGroupItem key={label} value={String(day)} aria-label={label} className="w-12">
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <div className="flex space-x-2">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setRecurrenceDays(WEEKDAYS)}>
+                Weekdays
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setRecurrenceDays(EVERY_DAY)}>
+                Every day
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setRecurrenceDays([])}>
+                Clear
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">{describeRecurrence(recurrenceDays)}</p>
+          </div>
+
+          <div className="flex items-start space-x-2">
+            <Checkbox
+              id="templateAutoFill"
+              checked={recurrenceDays.length > 0 && autoFill}
+              disabled={recurrenceDays.length === 0}
+              onCheckedChange={(checked) => setAutoFill(checked === true)}
+            />
+            <Label htmlFor="templateAutoFill" className="font-normal leading-snug">
+              Fill in these days automatically as drafts for me to confirm
+            </Label>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={!name.trim() || mutation.isPending}
+              className="bg-emerald-500 hover:bg-emerald-600"
+            >
+              {mutation.isPending ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Car, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { Vehicle } from "@shared/schema";
+import { FUEL_TYPES, FUEL_TYPE_LABELS, requiresMpg, requiresKwhPer100Mi, type FuelType } from "@shared/vehicles";
+
+type VehicleFormData = {
+  name: string;
+  fuelType: string;
+  mpg: string;
+  kwhPer100Mi: string;
+  defaultOccupancy: string;
+};
+
+const EMPTY_VEHICLE: VehicleFormData = {
+  name: "",
+  fuelType: "gasoline",
+  mpg: "",
+  kwhPer100Mi: "",
+  defaultOccupancy: "1",
+};
+
+function toVehiclePayload(data: VehicleFormData) {
+  return {
+    name: data.name.trim(),
+    fuelType: data.fuelType,
+    mpg: requiresMpg(data.fuelType) && data.mpg ? parseFloat(data.mpg) : null,
+    kwhPer100Mi: requiresKwhPer100Mi(data.fuelType) && data.kwhPer100Mi ? parseFloat(data.kwhPer100Mi) : null,
+    defaultOccupancy: data.defaultOccupancy ? parseInt(data.defaultOccupancy) : 1,
+  };
+}
+
+function describeVehicle(vehicle: Vehicle) {
+  const parts: string[] = [FUEL_TYPE_LABELS[vehicle.fuelType as FuelType] ?? vehicle.fuelType];
+  if (vehicle.mpg) parts.push(`${vehicle.mpg} MPG`);
+  if (vehicle.kwhPer100Mi) parts.push(`${vehicle.kwhPer100Mi} kWh/100mi`);
+  if (vehicle.defaultOccupancy && vehicle.defaultOccupancy > 1) parts.push(`${vehicle.defaultOccupancy} people`);
+  return parts.join(" · ");
+}
+
+export default function VehicleManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [formData, setFormData] = useState<VehicleFormData>(EMPTY_VEHICLE);
+
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: VehicleFormData) => {
+      await apiRequest("POST", "/api/vehicles", toVehiclePayload(data));
+    },
+    onSuccess: () => {
+      toast({
+        title: "Vehicle Added",
+        description: "You can now pick this vehicle when logging car trips.",
+      });
+      setFormData(EMPTY_VEHICLE);
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+    },
+    onError: (error) => handleError(error, "Failed to add vehicle. Please check its details."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (vehicleId: number) => {
+      await apiRequest("DELETE", `/api/vehicles/${vehicleId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+    },
+    onError: (error) => handleError(error, "Failed to remove vehicle. Please try again."),
+  });
+
+  const handleInputChange = (field: keyof VehicleFormData, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: value
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate(formData);
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Car className="w-5 h-5 text-blue-500" />
+          <span>Vehicles</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {vehicles.length > 0 ? (
+          <div className="space-y-2">
+            {vehicles.map((vehicle) => (
+              <div key={vehicle.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <p className="font-medium text-gray-900">{vehicle.name}</p>
+                  <p className="text-sm text-gray-500">{describeVehicle(vehicle)}</p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteMutation.mutate(vehicle.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label={`Remove ${vehicle.name}`}
+                >
+                  <Trash2 className="w-4 h-4 text-gray-500" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Add your car to calculate trips from its real fuel economy instead of a national average.
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="vehicleName">Name</Label>
+            <Input
+              id="vehicleName"
+              placeholder="e.g. Family SUV"
+              value={formData.name}
+              onChange={(e) => handleInputChange('name', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="vehicleFuelType">Fuel type</Label>
+            <Select value={formData.fuelType} onValueChange={(value) => handleInputChange('fuelType', value)}>
+              <SelectTrigger id="vehicleFuelType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FUEL_TYPES.map((fuelType) => (
+                  <SelectItem key={fuelType} value={fuelType}>{FUEL_TYPE_LABELS[fuelType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {requiresMpg(formData.fuelType) && (
+            <div className="space-y-2">
+              <Label htmlFor="vehicleMpg">Fuel economy (MPG)</Label>
+              <Input
+                id="vehicleMpg"
+                type="number"
+                step="0.1"
+                min="0"
+                placeholder="e.g. 32"
+                value={formData.mpg}
+                onChange={(e) => handleInputChange('mpg', e.target.value)}
+              />
+            </div>
+          )}
+          {requiresKwhPer100Mi(formData.fuelType) && (
+            <div className="space-y-2">
+              <Label htmlFor="vehicleKwh">Efficiency (kWh/100mi)</Label>
+              <Input
+                id="vehicleKwh"
+                type="number"
+                step="0.1"
+                min="0"
+                placeholder="e.g. 28"
+                value={formData.kwhPer100Mi}
+                onChange={(e) => handleInputChange('kwhPer100Mi', e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="vehicleOccupancy">Usual occupants</Label>
+            <Input
+              id="vehicleOccupancy"
+              type="number"
+              min="1"
+              value={formData.defaultOccupancy}
+              onChange={(e) => handleInputChange('defaultOccupancy', e.target.value)}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={!formData.name.trim() || createMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {createMutation.isPending ? "Adding..." : "Add Vehicle"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { User } from "@shared/schema";
+import { getUnitPreferences } from "@shared/units";
+
+export function useUnitPreferences() {
+  const { data: user } = useQuery<User>({
+    queryKey: ["/api/auth/user"],
+    retry: false,
+  });
+
+  return getUnitPreferences(user);
+}
@@ -1,17 +1,63 @@
-import { useEffect } from "react";
+import { useEffect, useRef, useState } from "react";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Activity } from "@shared/schema";
-import { Car, Zap, UtensilsCrossed, Calendar } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Pagination, PaginationContent, PaginationItem, PaginationLink } from "@/components/ui/pagination";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ActivityPage, ActivityWithDetails, ExportFormat, FoodItemWithFactor, Vehicle } from "@shared/schema";
+import { Car, Zap, UtensilsCrossed, Calendar, Pencil, Trash2, Download, Upload, MapPin } from "lucide-react";
 import Navigation from "@/components/Navigation";
+import ActivityForm from "@/components/ActivityForm";
+import DatePicker, { type LoggableDateRange } from "@/components/DatePicker";
+import ActivityImport from "@/components/ActivityImport";
+import DraftReviewQueue from "@/components/DraftReviewQueue";
+import ActivityFilterBar, {
+  DEFAULT_ACTIVITY_FILTERS,
+  hasActiveFilters,
+  toActivityQuery,
+  type ActivityFilters,
+} from "@/components/ActivityFilterBar";
+import { apiRequest } from "@/lib/queryClient";
+import { useUnitPreferences } from "@/hooks/useUnitPreferences";
+import { formatQuantity } from "@shared/units";
+import { ENERGY_SOURCE_LABELS, TRANSPORT_LABELS } from "@/lib/carbonCalculations";
+import { ENERGY_SOURCES, ENERGY_USAGE_FIELDS, type EnergySource } from "@shared/emissions";
 
 export default function ActivityLog() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const units = useUnitPreferences();
+  const queryClient = useQueryClient();
+  const [editingActivity, setEditingActivity] = useState<ActivityWithDetails | null>(null);
+  // Past day being logged from the date picker, when it has no activity yet
+  const [newActivityDate, setNewActivityDate] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [filters, setFilters] = useState<ActivityFilters>(DEFAULT_ACTIVITY_FILTERS);
+  // Sentinel below the list that loads the next page when scrolled into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -26,8 +72,50 @@ export default function ActivityLog() {
     }
   }, [isAuthenticated, authLoading, toast]);
 
-  const { data: activities, isLoading, error } = useQuery<Activity[]>({
-    queryKey: ["/api/activities"],
+  const {
+    data,
+    isLoading,
+    isFetching,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/activities", filters],
+    queryFn: async ({ pageParam }) => {
+      const res = await apiRequest("GET", `/api/activities?${toActivityQuery(filters, pageParam)}`);
+      return (await res.json()) as ActivityPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
+    enabled: isAuthenticated,
+  });
+  const activities = data?.pages.flatMap((page) => page.activities);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const { data: dateRange } = useQuery<LoggableDateRange>({
+    queryKey: ["/api/activities/date-range"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: foods = [] } = useQuery<FoodItemWithFactor[]>({
+    queryKey: ["/api/foods"],
     enabled: isAuthenticated,
   });
 
@@ -44,6 +132,40 @@ export default function ActivityLog() {
     }
   }, [error, toast]);
 
+  const deleteMutation = useMutation({
+    mutationFn: async (activityId: number) => {
+      await apiRequest("DELETE", `/api/activities/${activityId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Activity Deleted",
+        description: "The activity and its emissions have been removed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      toast({
+        title: "Error",
+        description: "Failed to delete activity. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   if (authLoading || isLoading) {
     return (
       <div className="min-h-screen bg-slate-50">
@@ -80,15 +202,72 @@ export default function ActivityLog() {
 
   const getTransportLabel = (type: string | null) => {
     if (!type) return 'No Transport';
-    const labels: Record<string, string> = {
-      car_gasoline: 'Car (Gasoline)',
-      car_electric: 'Car (Electric)',
-      bus: 'Bus',
-      train: 'Train',
-      bike: 'Bike',
-      walking: 'Walking'
-    };
-    return labels[type] || type;
+    return TRANSPORT_LABELS[type] || type;
+  };
+
+  const formatEnergyUsage = (source: EnergySource, usage: number) => {
+    switch (source) {
+      case 'naturalGas':
+        return formatQuantity(usage, units.gasUnit);
+      case 'heatingOil':
+      case 'propane':
+        return formatQuantity(usage, units.volumeUnit);
+      case 'wood':
+        return `${usage} kg`;
+      default:
+        return `${usage} kWh`;
+    }
+  };
+
+  const getEnergyUsages = (activity: ActivityWithDetails) =>
+    ENERGY_SOURCES.flatMap((source) => {
+      const usage = activity[ENERGY_USAGE_FIELDS[source]];
+      return usage ? [{ source, usage }] : [];
+    });
+
+  const getMealItemLabel = (item: ActivityWithDetails["mealItems"][number]) => {
+    const name = foods.find((food) => food.key === item.foodKey)?.name ?? item.foodKey;
+    const amount = item.portionLabel && item.quantity
+      ? `${item.quantity} × ${item.portionLabel.toLowerCase()} (${Math.round(item.grams)} g)`
+      : `${Math.round(item.grams)} g`;
+    return `${name}: ${amount}`;
+  };
+
+  const getTripLabel = (trip: ActivityWithDetails["trips"][number]) => {
+    const vehicle = vehicles.find((v) => v.id === trip.vehicleId);
+    return vehicle ? vehicle.name : getTransportLabel(trip.mode);
+  };
+
+  // Exports cover the date range of the current filters, or everything
+  const getExportUrl = (format: ExportFormat) => {
+    const params = new URLSearchParams({ format });
+    if (filters.startDate) params.set("startDate", filters.startDate);
+    if (filters.endDate) params.set("endDate", filters.endDate);
+    return `/api/export?${params}`;
+  };
+
+  // Days already logged open for editing, since there is one activity per day.
+  // The day may be on a page that has not loaded yet, so ask the server.
+  const openDay = async (date: string) => {
+    let existing = activities?.find((activity) => activity.date === date);
+    if (!existing) {
+      try {
+        const res = await apiRequest("GET", `/api/activities?startDate=${date}&endDate=${date}&limit=1`);
+        existing = ((await res.json()) as ActivityPage).activities[0];
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load that day. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    if (existing) {
+      setEditingActivity(existing);
+    } else {
+      setNewActivityDate(date);
+    }
   };
 
   return (
@@ -96,13 +275,64 @@ export default function ActivityLog() {
       <Navigation />
       
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">Activity Log</h1>
-          <p className="text-gray-600">Review your carbon footprint activities and emissions</p>
+        <div className="mb-8 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Activity Log</h1>
+            <p className="text-gray-600">Review your carbon footprint activities and emissions</p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <DatePicker range={dateRange} placeholder="Log a past day" onChange={openDay} />
+            <Button variant="outline" onClick={() => setImportOpen(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/utility-import">
+                <Zap className="w-4 h-4 mr-2" />
+                Utility Bill
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/trip-import">
+                <MapPin className="w-4 h-4 mr-2" />
+                GPS Trips
+              </Link>
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>
+                  {filters.startDate || filters.endDate ? "Filtered date range" : "Full history"}
+                </DropdownMenuLabel>
+                <DropdownMenuItem asChild>
+                  <a href={getExportUrl("csv")} download>CSV</a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={getExportUrl("json")} download>JSON</a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
 
-        {activities && activities.length > 0 ? (
-          <div className="space-y-6">
+        <DraftReviewQueue onEdit={setEditingActivity} />
+
+        <ActivityFilterBar filters={filters} onChange={setFilters} />
+
+        {error && !isUnauthorizedError(error) ? (
+          <Card className="shadow-lg">
+            <CardContent className="py-16 text-center">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Couldn't load activities</h3>
+              <p className="text-gray-600">Check the filters and try again.</p>
+            </CardContent>
+          </Card>
+        ) : activities && activities.length > 0 ? (
+          <div className={`space-y-6 ${isFetching && !isFetchingNextPage ? "opacity-60" : ""}`}>
             {activities.map((activity) => (
               <Card key={activity.id} className="shadow-lg">
                 <CardHeader>
@@ -111,9 +341,49 @@ export default function ActivityLog() {
                       <Calendar className="w-5 h-5 text-emerald-500" />
                       <span>{formatDate(activity.date)}</span>
                     </CardTitle>
-                    <Badge variant="outline" className="text-lg font-semibold">
-                      {activity.totalEmissions.toFixed(2)} kg CO2e
-                    </Badge>
+                    <div className="flex items-center space-x-2">
+                      {activity.status === "draft" && (
+                        <Badge variant="secondary" className="bg-amber-100 text-amber-800 hover:bg-amber-100">
+                          Draft
+                        </Badge>
+                      )}
+                      <Badge variant="outline" className="text-lg font-semibold">
+                        {activity.totalEmissions.toFixed(2)} kg CO2e
+                      </Badge>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditingActivity(activity)}
+                        aria-label="Edit activity"
+                      >
+                        <Pencil className="w-4 h-4 text-gray-500" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Delete activity">
+                            <Trash2 className="w-4 h-4 text-gray-500" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this activity?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Everything logged for {formatDate(activity.date)} will be removed, including its
+                              {" "}{activity.totalEmissions.toFixed(2)} kg CO2e. This cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              className="bg-red-600 hover:bg-red-700"
+                              onClick={() => deleteMutation.mutate(activity.id)}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -126,13 +396,29 @@ export default function ActivityLog() {
                         </div>
                         <h3 className="font-semibold text-gray-900">Transport</h3>
                       </div>
-                      {activity.transportType && activity.transportDistance ? (
+                      {activity.trips.length > 0 ? (
+                        <div className="space-y-1">
+                          {activity.trips.map((trip) => (
+                            <p key={trip.id} className="text-sm text-gray-600">
+                              <span className="font-medium">{getTripLabel(trip)}</span>
+                              {trip.mode === 'flight' && ` ${trip.origin} → ${trip.destination}`}
+                              {": "}{formatQuantity(trip.distance, units.distanceUnit)}
+                              {trip.passengers && trip.passengers > 1 ? ` (${trip.passengers} passengers)` : ""}
+                              {trip.mode === 'flight' && trip.cabinClass && trip.cabinClass !== 'economy' && `, ${trip.cabinClass.replace('_', ' ')}`}
+                              {trip.mode === 'flight' && trip.radiativeForcing && ', incl. radiative forcing'}
+                            </p>
+                          ))}
+                          <p className="text-sm font-medium text-blue-600">
+                            {activity.transportEmissions?.toFixed(2) || 0} kg CO2e
+                          </p>
+                        </div>
+                      ) : activity.transportType && activity.transportDistance ? (
                         <div className="space-y-1">
                           <p className="text-sm text-gray-600">
                             <span className="font-medium">{getTransportLabel(activity.transportType)}</span>
                           </p>
                           <p className="text-sm text-gray-600">
-                            Distance: {activity.transportDistance} miles
+                            Distance: {formatQuantity(activity.transportDistance, units.distanceUnit)}
                           </p>
                           <p className="text-sm font-medium text-blue-600">
                             {activity.transportEmissions?.toFixed(2) || 0} kg CO2e
@@ -151,18 +437,13 @@ export default function ActivityLog() {
                         </div>
                         <h3 className="font-semibold text-gray-900">Energy</h3>
                       </div>
-                      {activity.electricityUsage || activity.naturalGasUsage ? (
+                      {getEnergyUsages(activity).length > 0 ? (
                         <div className="space-y-1">
-                          {activity.electricityUsage && (
-                            <p className="text-sm text-gray-600">
-                              Electricity: {activity.electricityUsage} kWh
+                          {getEnergyUsages(activity).map(({ source, usage }) => (
+                            <p key={source} className="text-sm text-gray-600">
+                              {ENERGY_SOURCE_LABELS[source]}: {formatEnergyUsage(source, usage)}
                             </p>
-                          )}
-                          {activity.naturalGasUsage && (
-                            <p className="text-sm text-gray-600">
-                              Natural Gas: {activity.naturalGasUsage} therms
-                            </p>
-                          )}
+                          ))}
                           <p className="text-sm font-medium text-yellow-600">
                             {activity.energyEmissions?.toFixed(2) || 0} kg CO2e
                           </p>
@@ -180,8 +461,13 @@ export default function ActivityLog() {
                         </div>
                         <h3 className="font-semibold text-gray-900">Food</h3>
                       </div>
-                      {(activity.beefServings || activity.chickenServings || activity.vegetableServings) ? (
+                      {(activity.mealItems.length > 0 || activity.beefServings || activity.chickenServings || activity.vegetableServings) ? (
                         <div className="space-y-1">
+                          {activity.mealItems.map((item) => (
+                            <p key={item.id} className="text-sm text-gray-600">
+                              {getMealItemLabel(item)}
+                            </p>
+                          ))}
                           {activity.beefServings > 0 && (
                             <p className="text-sm text-gray-600">
                               Beef: {activity.beefServings} servings
@@ -209,7 +495,36 @@ export default function ActivityLog() {
                 </CardContent>
               </Card>
             ))}
+
+            <div ref={loadMoreRef} />
+            {hasNextPage && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationLink
+                      href="#"
+                      size="default"
+                      aria-disabled={isFetchingNextPage}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        if (!isFetchingNextPage) fetchNextPage();
+                      }}
+                    >
+                      {isFetchingNextPage ? "Loading..." : "Load more activities"}
+                    </PaginationLink>
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
           </div>
+        ) : hasActiveFilters(filters) ? (
+          <Card className="shadow-lg">
+            <CardContent className="py-16 text-center">
+              <Calendar className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">No Matching Activities</h3>
+              <p className="text-gray-600">Try widening the date range or clearing some filters</p>
+            </CardContent>
+          </Card>
         ) : (
           <Card className="shadow-lg">
             <CardContent className="py-16 text-center">
@@ -222,6 +537,41 @@ export default function ActivityLog() {
           </Card>
         )}
       </main>
+
+      <Dialog open={editingActivity !== null} onOpenChange={(open) => !open && setEditingActivity(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto p-0">
+          <DialogTitle className="sr-only">
+            {editingActivity?.status === "draft" ? "Review draft" : "Edit activity"}
+          </DialogTitle>
+          {editingActivity && (
+            <ActivityForm
+              key={editingActivity.id}
+              activity={editingActivity}
+              onSaved={() => setEditingActivity(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto p-0">
+          <DialogTitle className="sr-only">Import activities</DialogTitle>
+          {importOpen && <ActivityImport onDone={() => setImportOpen(false)} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={newActivityDate !== null} onOpenChange={(open) => !open && setNewActivityDate(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto p-0">
+          <DialogTitle className="sr-only">Log activity</DialogTitle>
+          {newActivityDate && (
+            <ActivityForm
+              key={newActivityDate}
+              initialDate={newActivityDate}
+              onSaved={() => setNewActivityDate(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
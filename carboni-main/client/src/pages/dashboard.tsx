@@ -1,4 +1,5 @@
 import { useEffect } from "react";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
@@ -6,9 +7,28 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Car, Zap, UtensilsCrossed, TrendingDown, TrendingUp, Award, Target } from "lucide-react";
+import { Car, Zap, UtensilsCrossed, TrendingDown, TrendingUp, Award, Target, ClipboardList } from "lucide-react";
 import EmissionsChart from "@/components/EmissionsChart";
 import ActivityForm from "@/components/ActivityForm";
+import ActivityTemplates from "@/components/ActivityTemplates";
+import GoalForecastSummary from "@/components/GoalForecastSummary";
+import { ENERGY_SOURCE_LABELS } from "@/lib/carbonCalculations";
+import { ENERGY_SOURCES, type EnergyBreakdown } from "@shared/emissions";
+import type { Achievement, Goal } from "@shared/schema";
+
+interface DashboardData {
+  totalEmissionsThisMonth: number;
+  reductionPercentage: number;
+  rank: number;
+  emissionsByCategory: { transport: number; energy: number; food: number };
+  energyBySource: EnergyBreakdown;
+  goals: Goal[];
+  achievements: Achievement[];
+  personalizedTips: Array<{ title: string; description: string; category: string }>;
+  chartData: { labels: string[]; transport: number[]; energy: number[]; food: number[] };
+  // Filled-in days waiting for review, left out of the totals above
+  draftCount: number;
+}
 
 export default function Dashboard() {
   const { toast } = useToast();
@@ -28,7 +48,7 @@ export default function Dashboard() {
     }
   }, [isAuthenticated, authLoading, toast]);
 
-  const { data: dashboardData, isLoading, error } = useQuery({
+  const { data: dashboardData, isLoading, error } = useQuery<DashboardData>({
     queryKey: ["/api/dashboard"],
     enabled: isAuthenticated,
   });
@@ -64,11 +84,13 @@ export default function Dashboard() {
     reductionPercentage = 0,
     rank = 0,
     emissionsByCategory = { transport: 0, energy: 0, food: 0 },
+    energyBySource = {},
     goals = [],
     achievements = [],
     personalizedTips = [],
-    chartData = { labels: [], transport: [], energy: [], food: [] }
-  } = dashboardData || {};
+    chartData = { labels: [], transport: [], energy: [], food: [] },
+    draftCount = 0
+  } = dashboardData || ({} as Partial<DashboardData>);
 
   // Calculate today's emissions
   const todayTransport = chartData.transport?.slice(-1)[0] || 0;
@@ -105,6 +127,21 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {draftCount > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-xl border border-amber-200 bg-amber-50 p-4 mb-8">
+            <div className="flex items-center space-x-3 text-amber-900">
+              <ClipboardList className="w-5 h-5 flex-shrink-0" />
+              <span>
+                {draftCount} filled-in {draftCount === 1 ? "day is" : "days are"} waiting for review and not yet
+                counted in your totals or ranking.
+              </span>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/activity-log">Review Drafts</Link>
+            </Button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-8">
@@ -154,6 +191,12 @@ export default function Dashboard() {
                     <Badge variant="secondary" className="text-xs bg-emerald-50 text-emerald-600 hover:bg-emerald-50">
                       Weekly total: {emissionsByCategory.energy.toFixed(1)} kg
                     </Badge>
+                    {ENERGY_SOURCES.filter((source) => (energyBySource[source] ?? 0) > 0).map((source) => (
+                      <div key={source} className="flex justify-between text-xs text-gray-500">
+                        <span>{ENERGY_SOURCE_LABELS[source]}</span>
+                        <span>{energyBySource[source]?.toFixed(1)} kg</span>
+                      </div>
+                    ))}
                   </div>
                 </CardContent>
               </Card>
@@ -204,6 +247,9 @@ export default function Dashboard() {
 
           {/* Sidebar */}
           <div className="space-y-8">
+            {/* Activity Templates */}
+            <ActivityTemplates />
+
             {/* Personalized Tips */}
             <Card className="shadow-lg">
               <CardContent className="p-6">
@@ -245,12 +291,13 @@ export default function Dashboard() {
                         <div className="w-full bg-gray-200 rounded-full h-2">
                           <div 
                             className="bg-gradient-to-r from-emerald-400 to-emerald-500 h-2 rounded-full" 
-                            style={{ width: `${Math.min((goal.currentValue / goal.targetValue) * 100, 100)}%` }}
+                            style={{ width: `${Math.min(((goal.currentValue ?? 0) / goal.targetValue) * 100, 100)}%` }}
                           ></div>
                         </div>
                         <p className="text-xs text-gray-500 mt-1">
-                          {goal.currentValue}/{goal.targetValue} - {goal.achieved ? 'Achieved!' : 'In progress'}
+                          {(goal.currentValue ?? 0).toFixed(1)}/{goal.targetValue} - {goal.achieved ? 'Achieved!' : 'In progress'}
                         </p>
+                        <GoalForecastSummary goal={goal} compact />
                       </div>
                     ))
                   ) : (
@@ -10,25 +10,90 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
-import { Target, Plus, CheckCircle, Clock } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Target,
+  Plus,
+  CheckCircle,
+  Clock,
+  Pause,
+  Play,
+  Archive,
+  ArchiveRestore,
+  Pencil,
+  Trash2,
+  XCircle,
+  Flame,
+  Repeat,
+} from "lucide-react";
 import Navigation from "@/components/Navigation";
-import { Goal } from "@shared/schema";
+import GoalForecastSummary from "@/components/GoalForecastSummary";
+import {
+  Goal,
+  CATEGORY_REDUCTION_GOAL_TYPES,
+  DEFAULT_BASELINE_WEEKS,
+  GOAL_STATUSES,
+  type GoalPeriod,
+  type GoalStatus,
+} from "@shared/schema";
+import { getGoalSeries, getGoalStreak, getPeriodEnd } from "@shared/goals";
 import { apiRequest } from "@/lib/queryClient";
 
+const STATUS_LABELS: Record<GoalStatus, string> = {
+  active: "Active",
+  paused: "Paused",
+  completed: "Completed",
+  failed: "Failed",
+  archived: "Archived",
+};
+
+const STATUS_BADGES: Record<GoalStatus, { className: string; icon: typeof Clock }> = {
+  active: { className: "bg-blue-100 text-blue-800 hover:bg-blue-100", icon: Clock },
+  paused: { className: "bg-amber-100 text-amber-800 hover:bg-amber-100", icon: Pause },
+  completed: { className: "bg-emerald-100 text-emerald-800 hover:bg-emerald-100", icon: CheckCircle },
+  failed: { className: "bg-red-100 text-red-800 hover:bg-red-100", icon: XCircle },
+  archived: { className: "bg-gray-100 text-gray-700 hover:bg-gray-100", icon: Archive },
+};
+
+const EMPTY_GOAL = {
+  type: "",
+  targetValue: "",
+  period: "month" as GoalPeriod,
+  startDate: "",
+  endDate: "",
+  baselineWeeks: "",
+  recurring: false,
+};
+
+const isCategoryReduction = (type: string) =>
+  (CATEGORY_REDUCTION_GOAL_TYPES as readonly string[]).includes(type);
+
+// Percentage change from the baseline, in words
+const formatReduction = (value: number) =>
+  value >= 0 ? `${value.toFixed(1)}% lower` : `${Math.abs(value).toFixed(1)}% higher`;
+
 export default function Goals() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const queryClient = useQueryClient();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [tab, setTab] = useState<GoalStatus>("active");
 
-  const [newGoal, setNewGoal] = useState({
-    type: "",
-    targetValue: "",
-    period: "",
-    startDate: "",
-    endDate: "",
-  });
+  const [newGoal, setNewGoal] = useState(EMPTY_GOAL);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -61,50 +126,111 @@ export default function Goals() {
     }
   }, [error, toast]);
 
-  const createGoalMutation = useMutation({
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateGoals = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+  };
+
+  const saveGoalMutation = useMutation({
     mutationFn: async (goalData: any) => {
-      await apiRequest("POST", "/api/goals", goalData);
+      if (editingGoal) {
+        await apiRequest("PATCH", `/api/goals/${editingGoal.id}`, goalData);
+      } else {
+        await apiRequest("POST", "/api/goals", goalData);
+      }
     },
     onSuccess: () => {
       toast({
-        title: "Goal Created",
-        description: "Your new goal has been set successfully!",
+        title: editingGoal ? "Goal Updated" : "Goal Created",
+        description: editingGoal
+          ? "Your changes have been saved and progress recalculated."
+          : "Your new goal has been set successfully!",
       });
       setIsDialogOpen(false);
-      setNewGoal({
-        type: "",
-        targetValue: "",
-        period: "",
-        startDate: "",
-        endDate: "",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      setEditingGoal(null);
+      setNewGoal(EMPTY_GOAL);
+      invalidateGoals();
     },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      
+    onError: (error) =>
+      handleError(
+        error,
+        error.message.startsWith("400")
+          ? "Please check the goal details. The end date can't be before the start date, and the baseline is 1 to 52 weeks."
+          : editingGoal
+            ? "Failed to update goal. Please try again."
+            : "Failed to create goal. Please try again.",
+      ),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ goal, status }: { goal: Goal; status: GoalStatus }) => {
+      await apiRequest("PATCH", `/api/goals/${goal.id}`, { status });
+    },
+    onSuccess: invalidateGoals,
+    onError: (error) => handleError(error, "Failed to update goal. Please try again."),
+  });
+
+  const deleteGoalMutation = useMutation({
+    mutationFn: async (goalId: number) => {
+      await apiRequest("DELETE", `/api/goals/${goalId}`);
+    },
+    onSuccess: () => {
       toast({
-        title: "Error",
-        description: "Failed to create goal. Please try again.",
-        variant: "destructive",
+        title: "Goal Deleted",
+        description: "The goal has been removed.",
       });
+      invalidateGoals();
     },
+    onError: (error) => handleError(error, "Failed to delete goal. Please try again."),
   });
 
+  const startCreate = () => {
+    setEditingGoal(null);
+    setNewGoal(EMPTY_GOAL);
+  };
+
+  const startEdit = (goal: Goal) => {
+    setEditingGoal(goal);
+    setNewGoal({
+      type: goal.type,
+      targetValue: String(goal.targetValue),
+      period: goal.period as GoalPeriod,
+      startDate: goal.startDate,
+      endDate: goal.endDate,
+      baselineWeeks: goal.baselineWeeks ? String(goal.baselineWeeks) : "",
+      recurring: goal.recurring,
+    });
+    setIsDialogOpen(true);
+  };
+
+  // A recurring goal runs for one period from its start date
+  const formEndDate =
+    newGoal.recurring && newGoal.startDate ? getPeriodEnd(newGoal.startDate, newGoal.period) : newGoal.endDate;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!newGoal.type || !newGoal.targetValue || !newGoal.startDate || !newGoal.endDate) {
+
+    if (!newGoal.type || !newGoal.targetValue || !newGoal.startDate || !formEndDate) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required fields.",
@@ -113,12 +239,16 @@ export default function Goals() {
       return;
     }
 
-    createGoalMutation.mutate({
+    saveGoalMutation.mutate({
       type: newGoal.type,
       targetValue: parseFloat(newGoal.targetValue),
-      period: newGoal.period || 'month',
+      period: newGoal.period,
       startDate: newGoal.startDate,
-      endDate: newGoal.endDate,
+      endDate: formEndDate,
+      recurring: newGoal.recurring,
+      baselineWeeks: isCategoryReduction(newGoal.type)
+        ? parseInt(newGoal.baselineWeeks) || DEFAULT_BASELINE_WEEKS
+        : null,
     });
   };
 
@@ -147,9 +277,12 @@ export default function Goals() {
     return labels[type] || type;
   };
 
+  // monthly_target is an emissions cap; the other types are a percentage cut
+  const getGoalUnit = (type: string) => (type === "monthly_target" ? "kg CO2e" : "% reduction");
+
   const calculateProgress = (goal: Goal) => {
     if (goal.targetValue === 0) return 0;
-    return Math.min((goal.currentValue / goal.targetValue) * 100, 100);
+    return Math.max(Math.min(((goal.currentValue ?? 0) / goal.targetValue) * 100, 100), 0);
   };
 
   const formatDate = (dateString: string) => {
@@ -160,34 +293,172 @@ export default function Goals() {
     });
   };
 
-  const isGoalActive = (goal: Goal) => {
-    const now = new Date();
-    const startDate = new Date(goal.startDate);
-    const endDate = new Date(goal.endDate);
-    return now >= startDate && now <= endDate;
+  const goalsWithStatus = (status: GoalStatus) => (goals ?? []).filter((goal) => goal.status === status);
+
+  const renderGoalCard = (goal: Goal) => {
+    const status = goal.status as GoalStatus;
+    const StatusIcon = STATUS_BADGES[status].icon;
+    // Hits and misses of the series so far, latest first
+    const series = goal.seriesId !== null ? getGoalSeries(goals ?? [], goal) : [];
+    const history = series.filter((instance) => instance.status === "completed" || instance.status === "failed");
+
+    return (
+      <Card key={goal.id} className="shadow-lg">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg">{getGoalTypeLabel(goal.type)}</CardTitle>
+            <Badge className={STATUS_BADGES[status].className}>
+              <StatusIcon className="w-3 h-3 mr-1" />
+              {STATUS_LABELS[status]}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-700">Progress</span>
+                <span className="text-sm text-gray-600">
+                  {(goal.currentValue ?? 0).toFixed(1)} / {goal.targetValue.toFixed(1)} {getGoalUnit(goal.type)}
+                </span>
+              </div>
+              <Progress value={calculateProgress(goal)} className="h-2" />
+              <p className="text-xs text-gray-500 mt-1">
+                {calculateProgress(goal).toFixed(1)}% {goal.type === "monthly_target" ? "of budget used" : "complete"}
+              </p>
+            </div>
+
+            {goal.type !== "monthly_target" && (
+              <div className="text-sm text-gray-600">
+                <p>
+                  <strong>Baseline:</strong>{" "}
+                  {goal.baselineValue !== null ? `${goal.baselineValue.toFixed(1)} kg CO2e/week` : "Not enough history"}
+                  <span className="text-xs text-gray-500">
+                    {" "}
+                    ({isCategoryReduction(goal.type)
+                      ? `${goal.baselineWeeks ?? DEFAULT_BASELINE_WEEKS} weeks before start`
+                      : "same length before start"})
+                  </span>
+                </p>
+                <p><strong>Reduction:</strong> {formatReduction(goal.currentValue ?? 0)}</p>
+              </div>
+            )}
+
+            {status === "active" && <GoalForecastSummary goal={goal} />}
+
+            <div className="text-sm text-gray-600">
+              <p><strong>Start:</strong> {formatDate(goal.startDate)}</p>
+              <p><strong>End:</strong> {formatDate(goal.endDate)}</p>
+            </div>
+
+            {goal.recurring && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center text-gray-600">
+                  <Repeat className="w-4 h-4 mr-1" />
+                  Every {goal.period}
+                </span>
+                <span className="flex items-center font-medium text-orange-600">
+                  <Flame className="w-4 h-4 mr-1" />
+                  {getGoalStreak(series)} {getGoalStreak(series) === 1 ? goal.period : `${goal.period}s`} in a row
+                </span>
+              </div>
+            )}
+            {history.length > 0 && (
+              <div className="flex items-center space-x-1" aria-label="Previous periods">
+                {history.slice(0, 8).reverse().map((instance) => (
+                  <span
+                    key={instance.id}
+                    title={`${formatDate(instance.startDate)}: ${instance.status === "completed" ? "met" : "missed"}`}
+                    className={`h-2.5 w-2.5 rounded-full ${instance.status === "completed" ? "bg-emerald-500" : "bg-red-400"}`}
+                  />
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-end space-x-1 border-t pt-3">
+              <Button variant="ghost" size="icon" onClick={() => startEdit(goal)} aria-label="Edit goal">
+                <Pencil className="w-4 h-4 text-gray-500" />
+              </Button>
+              {(status === "active" || status === "paused") && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => statusMutation.mutate({ goal, status: status === "active" ? "paused" : "active" })}
+                  disabled={statusMutation.isPending}
+                  aria-label={status === "active" ? "Pause goal" : "Resume goal"}
+                >
+                  {status === "active" ? (
+                    <Pause className="w-4 h-4 text-gray-500" />
+                  ) : (
+                    <Play className="w-4 h-4 text-gray-500" />
+                  )}
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => statusMutation.mutate({ goal, status: status === "archived" ? "active" : "archived" })}
+                disabled={statusMutation.isPending}
+                aria-label={status === "archived" ? "Restore goal" : "Archive goal"}
+              >
+                {status === "archived" ? (
+                  <ArchiveRestore className="w-4 h-4 text-gray-500" />
+                ) : (
+                  <Archive className="w-4 h-4 text-gray-500" />
+                )}
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="icon" aria-label="Delete goal">
+                    <Trash2 className="w-4 h-4 text-gray-500" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this goal?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The goal and its progress will be removed. Archive it instead to keep it out of the way.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      className="bg-red-600 hover:bg-red-700"
+                      onClick={() => deleteGoalMutation.mutate(goal.id)}
+                    >
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
   };
 
   return (
     <div className="min-h-screen bg-slate-50">
       <Navigation />
-      
+
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="flex items-center justify-between mb-8">
           <div>
             <h1 className="text-3xl font-bold text-gray-900 mb-2">Goals</h1>
             <p className="text-gray-600">Set and track your carbon reduction targets</p>
           </div>
-          
+
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
-              <Button className="bg-emerald-500 hover:bg-emerald-600">
+              <Button className="bg-emerald-500 hover:bg-emerald-600" onClick={startCreate}>
                 <Plus className="w-4 h-4 mr-2" />
                 Add Goal
               </Button>
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Create New Goal</DialogTitle>
+                <DialogTitle>{editingGoal ? "Edit Goal" : "Create New Goal"}</DialogTitle>
               </DialogHeader>
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
@@ -206,7 +477,9 @@ export default function Goals() {
                 </div>
 
                 <div>
-                  <Label htmlFor="targetValue">Target Value</Label>
+                  <Label htmlFor="targetValue">
+                    Target Value{newGoal.type && ` (${getGoalUnit(newGoal.type)})`}
+                  </Label>
                   <Input
                     id="targetValue"
                     type="number"
@@ -218,6 +491,51 @@ export default function Goals() {
                   />
                 </div>
 
+                {isCategoryReduction(newGoal.type) && (
+                  <div>
+                    <Label htmlFor="baselineWeeks">Baseline (weeks before start)</Label>
+                    <Input
+                      id="baselineWeeks"
+                      type="number"
+                      step="1"
+                      min="1"
+                      max="52"
+                      placeholder={String(DEFAULT_BASELINE_WEEKS)}
+                      value={newGoal.baselineWeeks}
+                      onChange={(e) => setNewGoal(prev => ({ ...prev, baselineWeeks: e.target.value }))}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Your average weekly emissions in this category over these weeks is the level to reduce from.
+                    </p>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4 items-end">
+                  <div>
+                    <Label htmlFor="period">Period</Label>
+                    <Select
+                      value={newGoal.period}
+                      onValueChange={(value) => setNewGoal(prev => ({ ...prev, period: value as GoalPeriod }))}
+                    >
+                      <SelectTrigger id="period">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="week">Week</SelectItem>
+                        <SelectItem value="month">Month</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center space-x-2 pb-2">
+                    <Checkbox
+                      id="recurring"
+                      checked={newGoal.recurring}
+                      onCheckedChange={(checked) => setNewGoal(prev => ({ ...prev, recurring: checked === true }))}
+                    />
+                    <Label htmlFor="recurring" className="font-normal">Repeat every {newGoal.period}</Label>
+                  </div>
+                </div>
+
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <Label htmlFor="startDate">Start Date</Label>
@@ -233,18 +551,23 @@ export default function Goals() {
                     <Input
                       id="endDate"
                       type="date"
-                      value={newGoal.endDate}
+                      value={formEndDate}
+                      disabled={newGoal.recurring}
                       onChange={(e) => setNewGoal(prev => ({ ...prev, endDate: e.target.value }))}
                     />
                   </div>
                 </div>
 
-                <Button 
-                  type="submit" 
+                <Button
+                  type="submit"
                   className="w-full bg-emerald-500 hover:bg-emerald-600"
-                  disabled={createGoalMutation.isPending}
+                  disabled={saveGoalMutation.isPending}
                 >
-                  {createGoalMutation.isPending ? "Creating..." : "Create Goal"}
+                  {saveGoalMutation.isPending
+                    ? "Saving..."
+                    : editingGoal
+                      ? "Save Changes"
+                      : "Create Goal"}
                 </Button>
               </form>
             </DialogContent>
@@ -252,53 +575,28 @@ export default function Goals() {
         </div>
 
         {goals && goals.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {goals.map((goal) => (
-              <Card key={goal.id} className="shadow-lg">
-                <CardHeader>
-                  <div className="flex items-center justify-between">
-                    <CardTitle className="text-lg">{getGoalTypeLabel(goal.type)}</CardTitle>
-                    <div className="flex items-center space-x-2">
-                      {goal.achieved ? (
-                        <Badge className="bg-emerald-100 text-emerald-800">
-                          <CheckCircle className="w-3 h-3 mr-1" />
-                          Achieved
-                        </Badge>
-                      ) : isGoalActive(goal) ? (
-                        <Badge className="bg-blue-100 text-blue-800">
-                          <Clock className="w-3 h-3 mr-1" />
-                          Active
-                        </Badge>
-                      ) : (
-                        <Badge variant="secondary">Inactive</Badge>
-                      )}
-                    </div>
+          <Tabs value={tab} onValueChange={(value) => setTab(value as GoalStatus)}>
+            <TabsList className="mb-6 flex-wrap h-auto">
+              {GOAL_STATUSES.map((status) => (
+                <TabsTrigger key={status} value={status}>
+                  {STATUS_LABELS[status]} ({goalsWithStatus(status).length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {GOAL_STATUSES.map((status) => (
+              <TabsContent key={status} value={status}>
+                {goalsWithStatus(status).length > 0 ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {goalsWithStatus(status).map(renderGoalCard)}
                   </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div>
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-sm font-medium text-gray-700">Progress</span>
-                        <span className="text-sm text-gray-600">
-                          {goal.currentValue.toFixed(1)} / {goal.targetValue.toFixed(1)}
-                        </span>
-                      </div>
-                      <Progress value={calculateProgress(goal)} className="h-2" />
-                      <p className="text-xs text-gray-500 mt-1">
-                        {calculateProgress(goal).toFixed(1)}% complete
-                      </p>
-                    </div>
-
-                    <div className="text-sm text-gray-600">
-                      <p><strong>Start:</strong> {formatDate(goal.startDate)}</p>
-                      <p><strong>End:</strong> {formatDate(goal.endDate)}</p>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+                ) : (
+                  <p className="py-12 text-center text-gray-500">
+                    No {STATUS_LABELS[status].toLowerCase()} goals.
+                  </p>
+                )}
+              </TabsContent>
             ))}
-          </div>
+          </Tabs>
         ) : (
           <Card className="shadow-lg">
             <CardContent className="py-16 text-center">
@@ -309,7 +607,7 @@ export default function Goals() {
               </p>
               <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
                 <DialogTrigger asChild>
-                  <Button className="bg-emerald-500 hover:bg-emerald-600">
+                  <Button className="bg-emerald-500 hover:bg-emerald-600" onClick={startCreate}>
                     <Plus className="w-4 h-4 mr-2" />
                     Create Your First Goal
                   </Button>
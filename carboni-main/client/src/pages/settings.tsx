@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ruler, Zap } from "lucide-react";
+import Navigation from "@/components/Navigation";
+import VehicleManager from "@/components/VehicleManager";
+import { User } from "@shared/schema";
+import { GRID_REGIONS } from "@shared/gridIntensity";
+import {
+  DISTANCE_UNITS,
+  GAS_UNITS,
+  VOLUME_UNITS,
+  UNIT_LABELS,
+  getUnitPreferences,
+  type UnitPreferences,
+} from "@shared/units";
+import { apiRequest } from "@/lib/queryClient";
+
+const DEFAULT_REGION_VALUE = "default";
+
+const gridRegionsOfKind = (kind: "egrid" | "country") =>
+  Object.entries(GRID_REGIONS)
+    .filter(([, region]) => region.kind === kind)
+    .sort(([, a], [, b]) => a.name.localeCompare(b.name));
+
+export default function Settings() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: user, isLoading } = useQuery<User>({
+    queryKey: ["/api/auth/user"],
+    enabled: isAuthenticated,
+  });
+
+  const [gridRegion, setGridRegion] = useState(DEFAULT_REGION_VALUE);
+  const [units, setUnits] = useState<UnitPreferences>(getUnitPreferences());
+
+  useEffect(() => {
+    if (user) {
+      setGridRegion(user.gridRegion || DEFAULT_REGION_VALUE);
+      setUnits(getUnitPreferences(user));
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (updates: Partial<User>) => {
+      await apiRequest("PATCH", "/api/auth/user", updates);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Settings Saved",
+        description: "Your preferences have been updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/emission-factors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      toast({
+        title: "Error",
+        description: "Failed to save settings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateProfileMutation.mutate({
+      gridRegion: gridRegion === DEFAULT_REGION_VALUE ? null : gridRegion,
+      ...units,
+    });
+  };
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Navigation />
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Settings</h1>
+          <p className="text-gray-600">Tune how your emissions are calculated</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Zap className="w-5 h-5 text-yellow-600" />
+                <span>Electricity Grid</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="gridRegion">Grid region</Label>
+              <Select value={gridRegion} onValueChange={setGridRegion}>
+                <SelectTrigger id="gridRegion">
+                  <SelectValue placeholder="Select your grid region" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_REGION_VALUE}>US average</SelectItem>
+                  <SelectGroup>
+                    <SelectLabel>US eGRID subregions</SelectLabel>
+                    {gridRegionsOfKind("egrid").map(([code, region]) => (
+                      <SelectItem key={code} value={code}>
+                        {region.name} ({code})
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  <SelectGroup>
+                    <SelectLabel>Countries</SelectLabel>
+                    {gridRegionsOfKind("country").map(([code, region]) => (
+                      <SelectItem key={code} value={code}>
+                        {region.name} ({code})
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500">
+                Used for electricity and electric car emissions.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Ruler className="w-5 h-5 text-emerald-500" />
+                <span>Units</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="distanceUnit">Distance</Label>
+                <Select
+                  value={units.distanceUnit}
+                  onValueChange={(value) => setUnits(prev => ({ ...prev, distanceUnit: value as UnitPreferences["distanceUnit"] }))}
+                >
+                  <SelectTrigger id="distanceUnit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DISTANCE_UNITS.map((unit) => (
+                      <SelectItem key={unit} value={unit}>{UNIT_LABELS[unit]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="gasUnit">Natural gas</Label>
+                <Select
+                  value={units.gasUnit}
+                  onValueChange={(value) => setUnits(prev => ({ ...prev, gasUnit: value as UnitPreferences["gasUnit"] }))}
+                >
+                  <SelectTrigger id="gasUnit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GAS_UNITS.map((unit) => (
+                      <SelectItem key={unit} value={unit}>{UNIT_LABELS[unit]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="volumeUnit">Liquid fuels</Label>
+                <Select
+                  value={units.volumeUnit}
+                  onValueChange={(value) => setUnits(prev => ({ ...prev, volumeUnit: value as UnitPreferences["volumeUnit"] }))}
+                >
+                  <SelectTrigger id="volumeUnit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VOLUME_UNITS.map((unit) => (
+                      <SelectItem key={unit} value={unit}>{UNIT_LABELS[unit]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Button
+            type="submit"
+            className="w-full bg-emerald-500 hover:bg-emerald-600"
+            disabled={updateProfileMutation.isPending}
+          >
+            {updateProfileMutation.isPending ? "Saving..." : "Save Settings"}
+          </Button>
+        </form>
+
+        <div className="mt-6">
+          <VehicleManager />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useUnitPreferences } from "@/hooks/useUnitPreferences";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { TRANSPORT_LABELS } from "@/lib/carbonCalculations";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, MapPin } from "lucide-react";
+import Navigation from "@/components/Navigation";
+import { formatQuantity } from "@shared/units";
+import { GROUND_TRANSPORT_TYPES, type GroundTransportType } from "@shared/emissions";
+import type { TrackImportReport, TrackImportStatus } from "@shared/schema";
+
+const STATUS_BADGES: Record<TrackImportStatus, { label: string; className: string }> = {
+  ready: { label: "Ready", className: "bg-emerald-100 text-emerald-800 hover:bg-emerald-100" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-700 hover:bg-gray-100" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+};
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return "—";
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+};
+
+export default function TripImport() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const units = useUnitPreferences();
+  const [content, setContent] = useState<string | null>(null);
+  const [modes, setModes] = useState<Record<string, GroundTransportType>>({});
+  const [skip, setSkip] = useState<number[]>([]);
+  const [report, setReport] = useState<TrackImportReport | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", "/api/import/tracks", {
+        content,
+        timezoneOffset: new Date().getTimezoneOffset(),
+        modes,
+        skip,
+        dryRun,
+      });
+      return (await response.json()) as TrackImportReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (!result.committed) return;
+
+      const trips = result.tracks.filter((track) => track.status === "ready").length;
+      toast({
+        title: "Trips Imported",
+        description: `${trips} ${trips === 1 ? "trip was" : "trips were"} added to ${result.created + result.updated} ${result.created + result.updated === 1 ? "day" : "days"}.${result.created > 0 ? " New days are drafts to confirm in your activity log." : ""}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      toast({
+        title: "Error",
+        description: error.message.startsWith("400")
+          ? "That file doesn't look like a GPX or GeoJSON track."
+          : error.message.startsWith("409")
+            ? "Some of these days were just logged. Preview the file again."
+            : "Failed to import trips. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Navigation />
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const handleFileChange = async (file: File | undefined) => {
+    setReport(null);
+    setModes({});
+    setSkip([]);
+    setContent(file ? await file.text() : null);
+  };
+
+  // Changes to a previewed file are sent with the import, so the preview is
+  // edited in place rather than fetched again
+  const updateMode = (index: number, mode: GroundTransportType) => {
+    setModes((current) => ({ ...current, [index]: mode }));
+    setReport((current) => current && {
+      ...current,
+      tracks: current.tracks.map((track) => (track.index === index ? { ...track, mode, totalEmissions: null } : track)),
+    });
+  };
+
+  const toggleSkip = (index: number, skipped: boolean) => {
+    setSkip((current) => (skipped ? [...current, index] : current.filter((value) => value !== index)));
+    setReport((current) => current && {
+      ...current,
+      tracks: current.tracks.map((track) =>
+        track.index === index && track.status !== "rejected"
+          ? { ...track, status: skipped ? "skipped" : "ready" }
+          : track,
+      ),
+    });
+  };
+
+  const readyCount = report?.tracks.filter((track) => track.status === "ready").length ?? 0;
+  const speedUnit = units.distanceUnit === "km" ? "km/h" : "mph";
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <Link href="/activity-log" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Activity Log
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Import GPS Trips</h1>
+          <p className="text-gray-600">
+            Upload a GPX or GeoJSON file from your fitness or navigation app to log each recorded trip as a transport leg
+          </p>
+        </div>
+
+        <Card className="shadow-lg mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <MapPin className="w-5 h-5 text-blue-600" />
+              <span>Track File</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="trackFile" className="mb-2 block">GPX or GeoJSON file</Label>
+              <Input
+                id="trackFile"
+                type="file"
+                accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json,application/json"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={() => importMutation.mutate(true)}
+                disabled={!content || importMutation.isPending}
+                className="bg-emerald-500 hover:bg-emerald-600"
+              >
+                {importMutation.isPending && !report ? "Reading..." : "Preview Import"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {report && (
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <p className="text-sm text-gray-600">
+                {report.tracks.length} {report.tracks.length === 1 ? "track" : "tracks"}. Modes are guessed from average
+                speed; change any that are wrong. Trips are added to days you have already logged.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="max-h-[28rem] overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">Import</TableHead>
+                      <TableHead>Track</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Distance</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Mode</TableHead>
+                      <TableHead>Emissions</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.tracks.map((track) => (
+                      <TableRow key={track.index}>
+                        <TableCell>
+                          <Checkbox
+                            aria-label={`Import track ${track.index + 1}`}
+                            checked={track.status === "ready"}
+                            disabled={track.status === "rejected" || report.committed}
+                            onCheckedChange={(checked) => toggleSkip(track.index, checked !== true)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {track.name ?? `Track ${track.index + 1}`}
+                          {track.errors.length > 0 && (
+                            <span className="block text-xs text-red-600">{track.errors.join("; ")}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>{track.date ?? "—"}</TableCell>
+                        <TableCell>{formatQuantity(track.distance, units.distanceUnit)}</TableCell>
+                        <TableCell>
+                          {formatDuration(track.durationSeconds)}
+                          {track.averageSpeed !== null && (
+                            <span className="block text-xs text-gray-500">
+                              {track.averageSpeed.toFixed(1)} {speedUnit}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={track.mode}
+                            disabled={track.status === "rejected" || report.committed}
+                            onValueChange={(value) => updateMode(track.index, value as GroundTransportType)}
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {GROUND_TRANSPORT_TYPES.map((type) => (
+                                <SelectItem key={type} value={type}>
+                                  {TRANSPORT_LABELS[type]}
+                                  {type === track.inferredMode && " (guessed)"}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          {track.totalEmissions !== null ? `${track.totalEmissions.toFixed(2)} kg CO2e` : "—"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_BADGES[track.status].className}>{STATUS_BADGES[track.status].label}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {!report.committed && (
+                <div className="flex justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => importMutation.mutate(true)}
+                    disabled={importMutation.isPending}
+                  >
+                    Refresh Preview
+                  </Button>
+                  <Button
+                    type="button"
+                    onClick={() => importMutation.mutate(false)}
+                    disabled={readyCount === 0 || importMutation.isPending}
+                    className="bg-emerald-500 hover:bg-emerald-600"
+                  >
+                    {importMutation.isPending
+                      ? "Importing..."
+                      : `Import ${readyCount} ${readyCount === 1 ? "Trip" : "Trips"}`}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
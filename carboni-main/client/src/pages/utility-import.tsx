@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useUnitPreferences } from "@/hooks/useUnitPreferences";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Zap } from "lucide-react";
+import Navigation from "@/components/Navigation";
+import { formatQuantity } from "@shared/units";
+import type { GreenButtonDayStatus, GreenButtonReport } from "@shared/schema";
+
+const STATUS_BADGES: Record<GreenButtonDayStatus, { label: string; className: string }> = {
+  new: { label: "New day", className: "bg-emerald-100 text-emerald-800 hover:bg-emerald-100" },
+  update: { label: "Fills in", className: "bg-blue-100 text-blue-800 hover:bg-blue-100" },
+  overlap: { label: "Overlaps", className: "bg-amber-100 text-amber-800 hover:bg-amber-100" },
+  unchanged: { label: "Unchanged", className: "bg-gray-100 text-gray-700 hover:bg-gray-100" },
+  future: { label: "Future date", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+};
+
+export default function UtilityImport() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const units = useUnitPreferences();
+  const [xml, setXml] = useState<string | null>(null);
+  const [overwrite, setOverwrite] = useState(false);
+  const [report, setReport] = useState<GreenButtonReport | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", "/api/import/green-button", { xml, dryRun, overwrite });
+      return (await response.json()) as GreenButtonReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (!result.committed) return;
+
+      toast({
+        title: "Utility Usage Imported",
+        description: `${result.created} new and ${result.updated} updated ${result.created + result.updated === 1 ? "day" : "days"}.${result.created > 0 ? " New days are drafts to confirm in your activity log." : ""}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+
+      toast({
+        title: "Error",
+        description: error.message.startsWith("400")
+          ? "That file doesn't look like a Green Button download with electricity or gas usage."
+          : error.message.startsWith("409")
+            ? "Some of these days were just logged. Preview the file again."
+            : "Failed to import utility usage. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <Navigation />
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-500"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const handleFileChange = async (file: File | undefined) => {
+    setReport(null);
+    setXml(file ? await file.text() : null);
+  };
+
+  const formatElectricity = (value: number | null) => (value === null ? "—" : `${value.toFixed(1)} kWh`);
+  const formatGas = (value: number | null) => (value === null ? "—" : formatQuantity(value, units.gasUnit));
+
+  // Show what the day holds now next to what the file would write
+  const renderChange = (imported: number | null, existing: number | null, format: (value: number | null) => string) => {
+    if (imported === null) return <span className="text-gray-400">—</span>;
+    if (existing === null) return format(imported);
+    return (
+      <span>
+        {format(imported)}
+        <span className="block text-xs text-gray-500">logged: {format(existing)}</span>
+      </span>
+    );
+  };
+
+  const overlapCount = report?.days.filter((day) => day.status === "overlap").length ?? 0;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navigation />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <Link href="/activity-log" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Activity Log
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Import Utility Usage</h1>
+          <p className="text-gray-600">
+            Upload the Green Button XML file from your utility's website to fill in daily electricity and gas use
+          </p>
+        </div>
+
+        <Card className="shadow-lg mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Zap className="w-5 h-5 text-yellow-600" />
+              <span>Green Button File</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="greenButtonFile" className="mb-2 block">XML file</Label>
+              <Input
+                id="greenButtonFile"
+                type="file"
+                accept=".xml,application/xml,text/xml"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="overwrite"
+                checked={overwrite}
+                onCheckedChange={(checked) => {
+                  setOverwrite(checked === true);
+                  setReport(null);
+                }}
+              />
+              <Label htmlFor="overwrite" className="font-normal">
+                Replace values I entered by hand with the utility's readings
+              </Label>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={() => importMutation.mutate(true)}
+                disabled={!xml || importMutation.isPending}
+                className="bg-emerald-500 hover:bg-emerald-600"
+              >
+                {importMutation.isPending && !report ? "Reading..." : "Preview Import"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {report && (
+          <Card className="shadow-lg">
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <p className="text-sm text-gray-600">
+                {report.days.length} {report.days.length === 1 ? "day" : "days"} of usage
+                {report.skippedReadings > 0 && `, ${report.skippedReadings} readings in units we can't convert were skipped`}.
+                {overlapCount > 0 && !overwrite &&
+                  ` ${overlapCount} ${overlapCount === 1 ? "day has" : "days have"} values you entered by hand; those values will be kept.`}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="max-h-[28rem] overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Electricity</TableHead>
+                      <TableHead>Natural gas</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.days.map((day) => (
+                      <TableRow key={day.date} className={day.status === "overlap" ? "bg-amber-50" : undefined}>
+                        <TableCell>{day.date}</TableCell>
+                        <TableCell>
+                          {renderChange(day.electricityUsage, day.existingElectricityUsage, formatElectricity)}
+                        </TableCell>
+                        <TableCell>
+                          {renderChange(day.naturalGasUsage, day.existingNaturalGasUsage, formatGas)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_BADGES[day.status].className}>{STATUS_BADGES[day.status].label}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {!report.committed && (
+                <div className="flex justify-end">
+                  <Button
+                    type="button"
+                    onClick={() => importMutation.mutate(false)}
+                    disabled={report.created + report.updated === 0 || importMutation.isPending}
+                    className="bg-emerald-500 hover:bg-emerald-600"
+                  >
+                    {importMutation.isPending ? "Importing..." : `Import ${report.created + report.updated} Days`}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
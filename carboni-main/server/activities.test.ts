@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { storage } from "./storage";
+import { getActivityHistory, logActivity } from "./activities";
+import type { ActivityWithDetails } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getUserActivitiesByDateRange: vi.fn(),
+    getActivityByDate: vi.fn(),
+    createActivity: vi.fn(),
+    replaceActivity: vi.fn(),
+    getUser: vi.fn(),
+    getEmissionFactorsAsOf: vi.fn(async () => []),
+  },
+}));
+
+const getRows = vi.mocked(storage.getUserActivitiesByDateRange);
+
+const activity = (id: number, date: string, totalEmissions: number) =>
+  ({ id, date, totalEmissions }) as ActivityWithDetails;
+
+describe("getActivityHistory cursors", () => {
+  beforeEach(() => getRows.mockReset());
+
+  it("returns no cursor on the last page", async () => {
+    getRows.mockResolvedValue([activity(3, "2025-03-03", 4)]);
+    const page = await getActivityHistory("user", { limit: "2" });
+    expect(page.activities).toHaveLength(1);
+    expect(page.nextCursor).toBeNull();
+    // One extra row is fetched to learn whether another page follows
+    expect(getRows.mock.calls[0][3]).toMatchObject({ limit: 3, after: undefined });
+  });
+
+  it("round-trips the last date and id of a page", async () => {
+    getRows.mockResolvedValue([activity(3, "2025-03-03", 4), activity(2, "2025-03-02", 9), activity(1, "2025-03-01", 1)]);
+    const { activities, nextCursor } = await getActivityHistory("user", { limit: "2" });
+    expect(activities.map((row) => row.id)).toEqual([3, 2]);
+    expect(nextCursor).toEqual(expect.any(String));
+
+    getRows.mockResolvedValue([]);
+    await getActivityHistory("user", { limit: "2", cursor: nextCursor });
+    expect(getRows.mock.calls[1][3]).toMatchObject({ after: { value: "2025-03-02", id: 2 } });
+  });
+
+  it("keys emission sorts on total emissions", async () => {
+    getRows.mockResolvedValue([activity(2, "2025-03-02", 9), activity(3, "2025-03-03", 4)]);
+    const { nextCursor } = await getActivityHistory("user", { limit: "1", sort: "emissions_desc" });
+
+    getRows.mockResolvedValue([]);
+    await getActivityHistory("user", { limit: "1", sort: "emissions_desc", cursor: nextCursor });
+    expect(getRows.mock.calls[1][3]).toMatchObject({ sort: "emissions_desc", after: { value: 9, id: 2 } });
+  });
+
+  it.each(["not-a-cursor", Buffer.from(JSON.stringify({ value: "x" })).toString("base64url")])(
+    "rejects the malformed cursor %s",
+    async (cursor) => {
+      await expect(getActivityHistory("user", { cursor })).rejects.toBeInstanceOf(z.ZodError);
+      expect(getRows).not.toHaveBeenCalled();
+    },
+  );
+});
+
+describe("logActivity", () => {
+  const today = new Date().toISOString().split("T")[0];
+  const draft = {
+    id: 7,
+    userId: "user",
+    date: today,
+    status: "draft",
+    transportType: null,
+    transportDistance: null,
+    trips: [],
+    mealItems: [],
+    electricityUsage: 10,
+  } as unknown as ActivityWithDetails;
+
+  beforeEach(() => {
+    vi.mocked(storage.getActivityByDate).mockReset();
+    vi.mocked(storage.replaceActivity).mockReset();
+    vi.mocked(storage.replaceActivity).mockImplementation(async (id, activity) => ({ ...draft, ...activity, id }) as ActivityWithDetails);
+  });
+
+  it("confirms a draft day it merges into", async () => {
+    vi.mocked(storage.getActivityByDate).mockResolvedValue(draft);
+    const { activity, merged } = await logActivity("user", { date: today, electricityUsage: 5 });
+
+    expect(merged).toBe(true);
+    expect(vi.mocked(storage.replaceActivity).mock.calls[0][1]).toMatchObject({ status: "confirmed", electricityUsage: 15 });
+    expect(activity.status).toBe("confirmed");
+  });
+
+  it("keeps a confirmed day confirmed", async () => {
+    vi.mocked(storage.getActivityByDate).mockResolvedValue({ ...draft, status: "confirmed" });
+    await logActivity("user", { date: today, electricityUsage: 5 });
+    expect(vi.mocked(storage.replaceActivity).mock.calls[0][1]).toMatchObject({ status: "confirmed" });
+  });
+});
@@ -0,0 +1,272 @@
+import { z } from "zod";
+import { storage, type ActivityCursor, type CalculatedActivity } from "./storage";
+import { calculateActivityEmissions } from "./emissionFactors";
+import {
+  insertActivityWithDetailsSchema,
+  activityHistoryQuerySchema,
+  type ActivityWithDetails,
+  type ActivityPage,
+  type ActivitySort,
+  type InsertTrip,
+  type InsertMealItem,
+} from "@shared/schema";
+import { summarizeTrips, isGroundTransportType, ENERGY_USAGE_FIELDS, type EmissionResults } from "@shared/emissions";
+import { getUnitPreferences, activityToCanonical, activityFromCanonical } from "@shared/units";
+import { resolveFlightDistance } from "@shared/flights";
+import { getVehicleTransportType } from "@shared/vehicles";
+
+// How many days back an activity may be logged or moved to
+const BACKFILL_DAYS = parseInt(process.env.ACTIVITY_BACKFILL_DAYS || "90", 10);
+
+// Furthest-ahead UTC offset, so a user's local "today" is never in the future
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+// Dates the user may log activities for
+export function getLoggableDateRange(now: Date = new Date()) {
+  const earliest = new Date(now);
+  earliest.setUTCDate(earliest.getUTCDate() - BACKFILL_DAYS);
+  return {
+    earliestDate: toIsoDate(earliest),
+    latestDate: toIsoDate(new Date(now.getTime() + MAX_UTC_OFFSET_MS)),
+    backfillDays: BACKFILL_DAYS,
+  };
+}
+
+// Validate a date the client wants to log for: not in the future and within
+// the backfill window
+export function parseActivityDate(date: unknown): string {
+  const { earliestDate, latestDate } = getLoggableDateRange();
+  const schema = z.object({
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+      .refine((value) => value <= latestDate, { message: "Date cannot be in the future" })
+      .refine((value) => value >= earliestDate, { message: `Date must be within the last ${BACKFILL_DAYS} days` }),
+  });
+  return schema.parse({ date }).date;
+}
+
+export interface PreparedActivity {
+  activity: CalculatedActivity;
+  trips: InsertTrip[];
+  mealItems: InsertMealItem[];
+  emissions: EmissionResults;
+}
+
+// Validate an activity payload from the API, convert it from the user's units
+// into canonical units and run the emissions engine over it. A single legacy
+// transport entry is stored as a one-leg trip, flight legs store the
+// great-circle distance between their airports, and legs driven in one of the
+// user's vehicles take their mode from the vehicle's fuel type. Meal items
+// must name a food in the catalog.
+export async function prepareActivity(userId: string, payload: Record<string, unknown>): Promise<PreparedActivity> {
+  const parsedData = insertActivityWithDetailsSchema.parse({
+    ...payload,
+    userId,
+    date: payload.date || toIsoDate(new Date()),
+  });
+
+  // Inputs arrive in the user's preferred units; storage stays canonical
+  const units = getUnitPreferences(await storage.getUser(userId));
+  const { trips: parsedTrips, mealItems: parsedMealItems, ...activityData } = activityToCanonical(parsedData, units);
+
+  const userVehicles = parsedTrips?.some((trip) => trip.vehicleId) ? await storage.getUserVehicles(userId) : [];
+
+  let trips: InsertTrip[] = (parsedTrips ?? []).map((trip, index) => {
+    if (trip.mode === "flight") return { ...trip, distance: resolveFlightDistance(trip), vehicleId: null };
+    if (!trip.vehicleId) return trip;
+
+    const vehicle = userVehicles.find((v) => v.id === trip.vehicleId);
+    if (!vehicle) {
+      throw new z.ZodError([
+        { code: z.ZodIssueCode.custom, path: ["trips", index, "vehicleId"], message: "Unknown vehicle" },
+      ]);
+    }
+    return { ...trip, mode: getVehicleTransportType(vehicle) };
+  });
+  if (trips.length === 0 && activityData.transportType && activityData.transportDistance) {
+    if (!isGroundTransportType(activityData.transportType)) {
+      throw new z.ZodError([
+        { code: z.ZodIssueCode.custom, path: ["transportType"], message: "Unknown transport type" },
+      ]);
+    }
+    trips = [{ mode: activityData.transportType, distance: activityData.transportDistance }];
+  }
+
+  const mealItems = parsedMealItems ?? [];
+  if (mealItems.length > 0) {
+    const foodKeys = new Set((await storage.getFoodItems()).map((food) => food.key));
+    const issues: z.ZodIssue[] = mealItems.flatMap((item, index) =>
+      foodKeys.has(item.foodKey)
+        ? []
+        : [{ code: z.ZodIssueCode.custom, path: ["mealItems", index, "foodKey"], message: "Unknown food" }],
+    );
+    if (issues.length > 0) throw new z.ZodError(issues);
+  }
+
+  const summarizedData = { ...activityData, ...summarizeTrips(trips) };
+  const { emissions, factorVersions } = await calculateActivityEmissions({ ...summarizedData, trips, mealItems });
+
+  return {
+    activity: { ...summarizedData, ...emissions, ...factorVersions },
+    trips,
+    mealItems,
+    emissions,
+  };
+}
+
+// The editable inputs of a stored activity, in canonical units. Days logged
+// before trips existed keep their single legacy transport entry.
+function getActivityInputs(activity: ActivityWithDetails) {
+  return {
+    date: activity.date,
+    transportType: activity.trips.length === 0 ? activity.transportType : null,
+    transportDistance: activity.trips.length === 0 ? activity.transportDistance : null,
+    trips: activity.trips.map(({ id, activityId, createdAt, ...trip }) => trip),
+    electricityUsage: activity.electricityUsage,
+    naturalGasUsage: activity.naturalGasUsage,
+    heatingOilUsage: activity.heatingOilUsage,
+    propaneUsage: activity.propaneUsage,
+    woodUsage: activity.woodUsage,
+    districtHeatUsage: activity.districtHeatUsage,
+    beefServings: activity.beefServings,
+    chickenServings: activity.chickenServings,
+    vegetableServings: activity.vegetableServings,
+    mealItems: activity.mealItems.map(({ id, activityId, createdAt, ...item }) => item),
+  };
+}
+
+// Apply a partial update from the API to a stored activity and prepare the
+// result like a new payload, so emissions are recomputed from scratch. Trips
+// and meal items are replaced as a whole when the update includes them.
+export async function prepareActivityUpdate(
+  existing: ActivityWithDetails,
+  payload: Record<string, unknown>,
+): Promise<PreparedActivity> {
+  const units = getUnitPreferences(await storage.getUser(existing.userId));
+  const current = activityFromCanonical(getActivityInputs(existing), units);
+
+  // Transport is either a set of legs or the legacy single entry, never both
+  const merged: Record<string, unknown> = { ...current, ...payload };
+  if ("trips" in payload) {
+    merged.transportType = payload.transportType ?? null;
+    merged.transportDistance = payload.transportDistance ?? null;
+  } else if ("transportType" in payload || "transportDistance" in payload) {
+    merged.trips = [];
+  }
+  return await prepareActivity(existing.userId, merged);
+}
+
+// Amounts that add up when two logs for the same day are merged
+const ADDITIVE_FIELDS = [
+  ...Object.values(ENERGY_USAGE_FIELDS),
+  "beefServings",
+  "chickenServings",
+  "vegetableServings",
+] as const;
+
+// Legs of a stored day or of a validated payload
+type TransportInputs = {
+  trips?: Array<Omit<InsertTrip, "mode"> & { mode: string }> | null;
+  transportType?: string | null;
+  transportDistance?: number | null;
+};
+
+function getLegs({ trips, transportType, transportDistance }: TransportInputs) {
+  if (trips && trips.length > 0) return trips;
+  return transportType && transportDistance ? [{ mode: transportType, distance: transportDistance }] : [];
+}
+
+// Add a new log to the day already stored for its date and prepare the
+// combined day: legs and meal items are appended and usage amounts added.
+export async function prepareActivityMerge(
+  existing: ActivityWithDetails,
+  payload: Record<string, unknown>,
+): Promise<PreparedActivity> {
+  const units = getUnitPreferences(await storage.getUser(existing.userId));
+  const current = activityFromCanonical(getActivityInputs(existing), units);
+  const addition = insertActivityWithDetailsSchema.parse({
+    ...payload,
+    userId: existing.userId,
+    date: existing.date,
+  });
+
+  const merged: Record<string, unknown> = {
+    ...current,
+    transportType: null,
+    transportDistance: null,
+    trips: [...getLegs(current), ...getLegs(addition)],
+    mealItems: [...current.mealItems, ...(addition.mealItems ?? [])],
+  };
+  for (const field of ADDITIVE_FIELDS) {
+    const a = current[field];
+    const b = addition[field];
+    merged[field] = a == null && b == null ? null : (a ?? 0) + (b ?? 0);
+  }
+  return await prepareActivity(existing.userId, merged);
+}
+
+// Log a payload from the API for its day. A day has a single record: a
+// second log for the same date is merged into it rather than creating
+// another row. Logging into a pre-filled draft confirms it.
+export async function logActivity(userId: string, payload: Record<string, unknown>) {
+  const date = payload.date ? parseActivityDate(payload.date) : toIsoDate(new Date());
+
+  const existing = await storage.getActivityByDate(userId, date);
+  if (existing) {
+    const { activity: activityData, trips, mealItems, emissions } = await prepareActivityMerge(existing, payload);
+    const activity = await storage.replaceActivity(existing.id, { ...activityData, status: "confirmed" }, trips, mealItems);
+    return { activity, emissions, merged: true };
+  }
+
+  // Validate, convert units and calculate emissions
+  const { activity: activityData, trips, mealItems, emissions } = await prepareActivity(userId, { ...payload, date });
+
+  // Create activity with its transport legs and meal items
+  const activity = await storage.createActivity(activityData, trips, mealItems);
+  return { activity, emissions, merged: false };
+}
+
+// Postgres unique_violation, raised when two logs for a day race each other
+export function isDuplicateActivityError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "23505";
+}
+
+const activityCursorSchema = z.object({
+  value: z.union([z.string(), z.number()]),
+  id: z.number().int(),
+});
+
+function encodeCursor(activity: ActivityWithDetails, sort: ActivitySort): string {
+  const value = sort.startsWith("emissions") ? activity.totalEmissions : activity.date;
+  return Buffer.from(JSON.stringify({ value, id: activity.id })).toString("base64url");
+}
+
+function decodeCursor(cursor: string): ActivityCursor {
+  try {
+    return activityCursorSchema.parse(JSON.parse(Buffer.from(cursor, "base64url").toString()));
+  } catch {
+    throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: ["cursor"], message: "Invalid cursor" }]);
+  }
+}
+
+// One page of a user's activity history for the given query string. A cursor
+// is only valid with the sort order it was issued for.
+export async function getActivityHistory(userId: string, rawQuery: unknown): Promise<ActivityPage> {
+  const { limit, cursor, startDate, endDate, sort, ...filters } = activityHistoryQuerySchema.parse(rawQuery);
+
+  // Fetch one extra row to learn whether another page follows
+  const rows = await storage.getUserActivitiesByDateRange(userId, startDate, endDate, {
+    ...filters,
+    sort,
+    after: cursor ? decodeCursor(cursor) : undefined,
+    limit: limit + 1,
+  });
+  const activities = rows.slice(0, limit);
+  return {
+    activities,
+    nextCursor: rows.length > limit ? encodeCursor(activities[activities.length - 1], sort) : null,
+  };
+}
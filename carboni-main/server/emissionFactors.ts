@@ -0,0 +1,169 @@
+import memoize from "memoizee";
+import { storage } from "./storage";
+import type { EmissionFactor, InsertEmissionFactor } from "@shared/schema";
+import {
+  calculateEmissions,
+  EMISSION_FACTORS,
+  DEFAULT_FACTOR_VERSION,
+  DEFAULT_FACTOR_SOURCE,
+  DEFAULT_FACTOR_REGION,
+  DEFAULT_FACTOR_VALID_FROM,
+  FACTOR_UNITS,
+  FACTOR_CATEGORIES,
+  type EmissionFactors,
+  type FactorCategory,
+  type FactorSet,
+  type ActivityData,
+} from "@shared/emissions";
+import { applyGridRegion, GRID_REGIONS, parseGridVersion } from "@shared/gridIntensity";
+
+function getDefaultUnit(category: FactorCategory, key: string): string {
+  const units = FACTOR_UNITS[category];
+  return units[key] ?? units.default;
+}
+
+// Registry rows for the factors bundled with the engine
+export function getDefaultFactorRows(): InsertEmissionFactor[] {
+  return FACTOR_CATEGORIES.flatMap((category) =>
+    Object.entries(EMISSION_FACTORS[category]).map(([key, value]) => ({
+      version: DEFAULT_FACTOR_VERSION,
+      category,
+      key,
+      value,
+      unit: getDefaultUnit(category, key),
+      source: DEFAULT_FACTOR_SOURCE,
+      region: DEFAULT_FACTOR_REGION,
+      validFrom: DEFAULT_FACTOR_VALID_FROM,
+      validTo: null,
+    })),
+  );
+}
+
+// Registry-shaped row for the grid intensity behind a grid factor version, or
+// null when the version is not one. The electric car factor of that version is
+// the registry's car_electric scaled by the same ratio as electricity.
+export function getGridFactorRow(version: string): InsertEmissionFactor | null {
+  const region = parseGridVersion(version);
+  if (!region) return null;
+
+  const { kind, kgPerKwh } = GRID_REGIONS[region];
+  return {
+    version,
+    category: "energy",
+    key: "electricity",
+    value: kgPerKwh,
+    unit: getDefaultUnit("energy", "electricity"),
+    source: kind === "egrid" ? "EPA eGRID2022 subregion output emission rate" : "Ember yearly electricity data 2023",
+    region,
+    validFrom: "2023-01-01",
+    validTo: null,
+  };
+}
+
+// Seed the registry with the bundled factors on every start, so factors added
+// to the engine since the database was first seeded get their rows too
+export async function seedDefaultEmissionFactors(): Promise<void> {
+  await storage.createEmissionFactors(getDefaultFactorRows());
+}
+
+// Build an engine factor set from the registry rows in effect on a date.
+// Rows for the requested region win over the default region; otherwise the
+// most recent validFrom wins. Missing keys fall back to the bundled factors.
+export function buildFactorSet(rows: EmissionFactor[], region: string = DEFAULT_FACTOR_REGION): FactorSet {
+  const factors = structuredClone(EMISSION_FACTORS) as EmissionFactors;
+  const applied: Record<FactorCategory, Set<string>> = {
+    transport: new Set(),
+    energy: new Set(),
+    food: new Set(),
+  };
+  const seen = new Set<string>();
+
+  const candidates = rows
+    .filter((row) => row.region === region || row.region === DEFAULT_FACTOR_REGION)
+    .sort((a, b) => {
+      const regionOrder = Number(b.region === region) - Number(a.region === region);
+      return regionOrder || b.validFrom.localeCompare(a.validFrom);
+    });
+
+  for (const row of candidates) {
+    const category = row.category as FactorCategory;
+    if (!FACTOR_CATEGORIES.includes(category)) continue;
+
+    const values = factors[category] as Record<string, number>;
+    const id = `${category}:${row.key}`;
+    if (!(row.key in values) || seen.has(id)) continue;
+
+    values[row.key] = row.value;
+    applied[category].add(row.version);
+    seen.add(id);
+  }
+
+  const versionOf = (category: FactorCategory) =>
+    applied[category].size > 0 ? Array.from(applied[category]).sort().join("+") : DEFAULT_FACTOR_VERSION;
+
+  return {
+    factors,
+    versions: {
+      transport: versionOf("transport"),
+      energy: versionOf("energy"),
+      food: versionOf("food"),
+    },
+  };
+}
+
+const loadFactorSetCached = memoize(
+  async (date: string, region: string) => {
+    const rows = await storage.getEmissionFactorsAsOf(date);
+    return applyGridRegion(buildFactorSet(rows, region), region);
+  },
+  { promise: true, maxAge: 5 * 60 * 1000 },
+);
+
+// Load the factor set in effect for an activity date. Electricity (and the
+// electric car factor) follow the bundled grid intensity for the region.
+export async function loadFactorSet(date: string, region: string = DEFAULT_FACTOR_REGION): Promise<FactorSet> {
+  return await loadFactorSetCached(date, region);
+}
+
+// Drop cached factor sets after the registry changes
+export function clearFactorSetCache(): void {
+  loadFactorSetCached.clear();
+}
+
+// Activity columns recording which factor versions produced its emissions
+export function getFactorVersionColumns(factorSet: FactorSet) {
+  return {
+    transportFactorVersion: factorSet.versions.transport,
+    energyFactorVersion: factorSet.versions.energy,
+    foodFactorVersion: factorSet.versions.food,
+  };
+}
+
+// Factor region for a user: their grid region when set, else the default
+export async function getUserFactorRegion(userId: string): Promise<string> {
+  const user = await storage.getUser(userId);
+  return user?.gridRegion || DEFAULT_FACTOR_REGION;
+}
+
+// Resolve trip vehicle references to the user's vehicle profiles
+async function attachVehicles(userId: string, trips: ActivityData["trips"]) {
+  if (!trips?.some((trip) => trip.vehicleId)) return trips;
+
+  const userVehicles = await storage.getUserVehicles(userId);
+  return trips.map((trip) => ({
+    ...trip,
+    vehicle: userVehicles.find((vehicle) => vehicle.id === trip.vehicleId) ?? null,
+  }));
+}
+
+// Run the engine for an activity with the factors in effect on its date and the
+// owner's grid region, returning the emissions and the factor version columns
+export async function calculateActivityEmissions(activity: ActivityData & { date: string; userId: string }) {
+  const region = await getUserFactorRegion(activity.userId);
+  const factorSet = await loadFactorSet(activity.date, region);
+  const trips = await attachVehicles(activity.userId, activity.trips);
+  return {
+    emissions: calculateEmissions({ ...activity, trips }, factorSet.factors),
+    factorVersions: getFactorVersionColumns(factorSet),
+  };
+}
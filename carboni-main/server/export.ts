@@ -0,0 +1,251 @@
+import type { Response } from "express";
+import { storage } from "./storage";
+import { getGridFactorRow } from "./emissionFactors";
+import { ENERGY_SOURCES, ENERGY_USAGE_FIELDS } from "@shared/emissions";
+import type { Achievement, ActivityWithDetails, ExportQuery, Goal, InsertEmissionFactor } from "@shared/schema";
+
+// Activities are read from the database a page at a time while streaming
+const EXPORT_PAGE_SIZE = 200;
+
+// Canonical unit of each energy source, used in its column name
+const ENERGY_UNIT_SUFFIXES: Record<(typeof ENERGY_SOURCES)[number], string> = {
+  electricity: "kwh",
+  naturalGas: "therms",
+  heatingOil: "gal",
+  propane: "gal",
+  wood: "kg",
+  districtHeat: "kwh",
+};
+
+const toSnakeCase = (value: string) => value.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+
+// Activities export in canonical units (miles, kWh, therms, gallons, kg,
+// grams) so files compare across users with different unit preferences
+const ACTIVITY_COLUMNS = [
+  "id",
+  "date",
+  "status",
+  "transport_type",
+  "transport_distance_mi",
+  "trips",
+  ...ENERGY_SOURCES.map((source) => `${toSnakeCase(source)}_${ENERGY_UNIT_SUFFIXES[source]}`),
+  "meal_items",
+  "beef_servings",
+  "chicken_servings",
+  "vegetable_servings",
+  "transport_emissions_kg",
+  "energy_emissions_kg",
+  "food_emissions_kg",
+  "total_emissions_kg",
+  "transport_factor_version",
+  "energy_factor_version",
+  "food_factor_version",
+];
+
+const FACTOR_COLUMNS = ["version", "category", "key", "value", "unit", "source", "region", "valid_from", "valid_to"];
+const GOAL_COLUMNS = ["id", "type", "period", "start_date", "end_date", "target_value", "current_value", "achieved", "status", "baseline_weeks", "baseline_value", "recurring", "series_id"];
+const ACHIEVEMENT_COLUMNS = ["id", "type", "title", "description", "unlocked_at"];
+
+type Cell = string | number | boolean | null | undefined;
+
+function toCsvRow(cells: Cell[]): string {
+  return cells
+    .map((cell) => {
+      if (cell === null || cell === undefined) return "";
+      const text = String(cell);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",") + "\n";
+}
+
+// A trip's inputs, written as JSON so legs round-trip without loss
+const tripInputs = ({ mode, distance, origin, destination, cabinClass, radiativeForcing, passengers, vehicleId }: ActivityWithDetails["trips"][number]) =>
+  ({ mode, distance, origin, destination, cabinClass, radiativeForcing, passengers, vehicleId });
+
+function activityToCsvRow(activity: ActivityWithDetails): string {
+  return toCsvRow([
+    activity.id,
+    activity.date,
+    activity.status,
+    activity.transportType,
+    activity.transportDistance,
+    activity.trips.length > 0 ? JSON.stringify(activity.trips.map(tripInputs)) : null,
+    ...ENERGY_SOURCES.map((source) => activity[ENERGY_USAGE_FIELDS[source]]),
+    activity.mealItems.map((item) => `${item.foodKey}:${item.grams}g`).join("; "),
+    activity.beefServings,
+    activity.chickenServings,
+    activity.vegetableServings,
+    activity.transportEmissions,
+    activity.energyEmissions,
+    activity.foodEmissions,
+    activity.totalEmissions,
+    activity.transportFactorVersion,
+    activity.energyFactorVersion,
+    activity.foodFactorVersion,
+  ]);
+}
+
+const factorToCsvRow = (factor: InsertEmissionFactor) =>
+  toCsvRow([
+    factor.version,
+    factor.category,
+    factor.key,
+    factor.value,
+    factor.unit,
+    factor.source,
+    factor.region,
+    factor.validFrom,
+    factor.validTo,
+  ]);
+
+const goalToCsvRow = (goal: Goal) =>
+  toCsvRow([
+    goal.id,
+    goal.type,
+    goal.period,
+    goal.startDate,
+    goal.endDate,
+    goal.targetValue,
+    goal.currentValue,
+    goal.achieved,
+    goal.status,
+    goal.baselineWeeks,
+    goal.baselineValue,
+    goal.recurring,
+    goal.seriesId,
+  ]);
+
+const achievementToCsvRow = (achievement: Achievement) =>
+  toCsvRow([
+    achievement.id,
+    achievement.type,
+    achievement.title,
+    achievement.description,
+    achievement.unlockedAt?.toISOString(),
+  ]);
+
+// Write a chunk, waiting for the socket to drain when its buffer is full.
+// Throws once the client has gone away so the export stops reading.
+async function write(res: Response, chunk: string): Promise<void> {
+  if (res.destroyed) throw new Error("Export client disconnected");
+  if (res.write(chunk)) return;
+
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+// Page through the user's activities oldest first
+async function* readActivities(userId: string, { startDate, endDate }: ExportQuery) {
+  let after: { value: string; id: number } | undefined;
+  while (true) {
+    const page = await storage.getUserActivitiesByDateRange(userId, startDate, endDate, {
+      sort: "date_asc",
+      after,
+      limit: EXPORT_PAGE_SIZE,
+    });
+    yield* page;
+    if (page.length < EXPORT_PAGE_SIZE) return;
+
+    const last = page[page.length - 1];
+    after = { value: last.date, id: last.id };
+  }
+}
+
+// Goals overlapping the export range and achievements unlocked within it
+async function getGoalsAndAchievements(userId: string, { startDate, endDate }: ExportQuery) {
+  const [userGoals, userAchievements] = await Promise.all([
+    storage.getUserGoals(userId),
+    storage.getUserAchievements(userId),
+  ]);
+  return {
+    goals: userGoals.filter(
+      (goal) => (!startDate || goal.endDate >= startDate) && (!endDate || goal.startDate <= endDate),
+    ),
+    achievements: userAchievements.filter((achievement) => {
+      const unlocked = achievement.unlockedAt?.toISOString().split("T")[0];
+      return !unlocked || ((!startDate || unlocked >= startDate) && (!endDate || unlocked <= endDate));
+    }),
+  };
+}
+
+// Registry rows for every factor version the exported activities were computed
+// with, plus the grid intensity applied for each grid region among them
+async function getReferencedFactors(versions: Set<string>): Promise<InsertEmissionFactor[]> {
+  const names = Array.from(new Set(Array.from(versions).flatMap((version) => version.split("+"))));
+  const gridRows = names.map(getGridFactorRow).filter((row): row is InsertEmissionFactor => row !== null);
+  const registryRows = await storage.getEmissionFactorsByVersions(names.filter((name) => !getGridFactorRow(name)));
+  return [...registryRows, ...gridRows];
+}
+
+function collectFactorVersions(activity: ActivityWithDetails, versions: Set<string>) {
+  for (const version of [activity.transportFactorVersion, activity.energyFactorVersion, activity.foodFactorVersion]) {
+    if (version) versions.add(version);
+  }
+}
+
+// Stream a user's history as CSV: activities, then the emission factors they
+// reference, goals and achievements, each as its own table under a "# name" line
+async function streamCsv(res: Response, userId: string, query: ExportQuery) {
+  const versions = new Set<string>();
+
+  await write(res, "# activities\n" + toCsvRow(ACTIVITY_COLUMNS));
+  for await (const activity of readActivities(userId, query)) {
+    collectFactorVersions(activity, versions);
+    await write(res, activityToCsvRow(activity));
+  }
+
+  const factors = await getReferencedFactors(versions);
+  await write(res, "\n# emission_factors\n" + toCsvRow(FACTOR_COLUMNS) + factors.map(factorToCsvRow).join(""));
+
+  const { goals, achievements } = await getGoalsAndAchievements(userId, query);
+  await write(res, "\n# goals\n" + toCsvRow(GOAL_COLUMNS) + goals.map(goalToCsvRow).join(""));
+  await write(res, "\n# achievements\n" + toCsvRow(ACHIEVEMENT_COLUMNS) + achievements.map(achievementToCsvRow).join(""));
+}
+
+// Stream a user's history as one JSON document, writing activities as they are read
+async function streamJson(res: Response, userId: string, query: ExportQuery) {
+  const versions = new Set<string>();
+
+  const header = {
+    exportedAt: new Date().toISOString(),
+    startDate: query.startDate ?? null,
+    endDate: query.endDate ?? null,
+    units: { distance: "miles", electricity: "kWh", naturalGas: "therms", volume: "gallons", mass: "kg", emissions: "kg CO2e" },
+  };
+  await write(res, JSON.stringify(header).slice(0, -1) + ',"activities":[');
+
+  let first = true;
+  for await (const activity of readActivities(userId, query)) {
+    collectFactorVersions(activity, versions);
+    await write(res, (first ? "" : ",") + JSON.stringify(activity));
+    first = false;
+  }
+
+  const emissionFactors = await getReferencedFactors(versions);
+  const { goals, achievements } = await getGoalsAndAchievements(userId, query);
+  const rest = JSON.stringify({ emissionFactors, goals, achievements });
+  await write(res, "]," + rest.slice(1));
+}
+
+// Send a user's full carbon history as a file download
+export async function streamExport(res: Response, userId: string, query: ExportQuery): Promise<void> {
+  const range = [query.startDate, query.endDate].filter(Boolean).join("_to_");
+  const filename = `carboni-export${range ? `-${range}` : ""}.${query.format}`;
+
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  if (query.format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    await streamCsv(res, userId, query);
+  } else {
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    await streamJson(res, userId, query);
+  }
+  res.end();
+}
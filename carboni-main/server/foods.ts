@@ -0,0 +1,10 @@
+import { storage } from "./storage";
+import { FOOD_CATALOG } from "@shared/foods";
+
+// Add any bundled catalog items missing from the food_items table. Existing
+// rows keep their configured names and portions.
+export async function seedFoodCatalog(): Promise<void> {
+  await storage.createFoodItems(
+    FOOD_CATALOG.map(({ key, name, category, portions }) => ({ key, name, category, portions })),
+  );
+}
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { storage, type DailyEmissions } from "./storage";
+import { forecastGoal } from "./forecast";
+import { addDays } from "@shared/goals";
+import type { Goal } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: { getDailyEmissions: vi.fn() },
+}));
+
+const getDaily = vi.mocked(storage.getDailyEmissions);
+
+const isWeekend = (date: string) => [0, 6].includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+
+// One logged day per date from start to end inclusive, all of it transport
+function history(startDate: string, endDate: string, emissionsFor: (date: string) => number): DailyEmissions[] {
+  const days: DailyEmissions[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const total = emissionsFor(date);
+    days.push({ date, transport: total, energy: 0, food: 0, total });
+  }
+  return days;
+}
+
+const makeGoal = (overrides: Partial<Goal> = {}) =>
+  ({
+    id: 1,
+    userId: "user",
+    type: "monthly_target",
+    targetValue: 400,
+    currentValue: 0,
+    period: "month",
+    startDate: "2025-03-01",
+    endDate: "2025-03-31",
+    baselineValue: null,
+    status: "active",
+    ...overrides,
+  }) as Goal;
+
+describe("forecastGoal", () => {
+  beforeEach(() => getDaily.mockReset());
+
+  it("projects a monthly target from the pace so far", async () => {
+    getDaily.mockResolvedValue(history("2025-01-04", "2025-03-15", () => 10));
+
+    const forecast = await forecastGoal(makeGoal(), "2025-03-16");
+    // Today isn't logged yet, so it counts as remaining
+    expect(forecast).toEqual({
+      goalId: 1,
+      daysRemaining: 16,
+      expectedDaily: 10,
+      current: 150,
+      projected: 310,
+      low: 310,
+      high: 310,
+      onTrack: true,
+      requiredDailyReduction: 0,
+    });
+    expect(getDaily).toHaveBeenCalledWith("user", "2025-01-04", "2025-03-16");
+  });
+
+  it("says how much less a day keeps an off-track target", async () => {
+    getDaily.mockResolvedValue(history("2025-01-04", "2025-03-16", () => 10));
+
+    const forecast = await forecastGoal(makeGoal({ targetValue: 300 }), "2025-03-16");
+    expect(forecast.daysRemaining).toBe(15);
+    expect(forecast.projected).toBeCloseTo(310);
+    expect(forecast.onTrack).toBe(false);
+    // 140 kg left for 15 days against 10 a day expected
+    expect(forecast.requiredDailyReduction).toBeCloseTo(10 - 140 / 15);
+  });
+
+  it("has no required reduction once the budget is spent", async () => {
+    getDaily.mockResolvedValue(history("2025-01-04", "2025-03-16", (date) => (date >= "2025-03-01" ? 30 : 10)));
+    expect((await forecastGoal(makeGoal(), "2025-03-16")).requiredDailyReduction).toBeNull();
+  });
+
+  it("follows weekday and weekend patterns", async () => {
+    getDaily.mockResolvedValue(history("2025-01-04", "2025-02-28", (date) => (isWeekend(date) ? 30 : 10)));
+
+    const forecast = await forecastGoal(makeGoal({ targetValue: 600 }), "2025-03-01");
+    // March 2025 has 21 weekdays and 10 weekend days
+    expect(forecast.projected).toBeCloseTo(21 * 10 + 10 * 30);
+    expect(forecast.low).toBeCloseTo(forecast.high);
+    expect(forecast.onTrack).toBe(true);
+  });
+
+  it("widens the band with day-to-day spread", async () => {
+    getDaily.mockResolvedValue(history("2025-01-04", "2025-02-28", (date) => (Number(date.slice(8)) % 2 === 0 ? 5 : 15)));
+
+    const forecast = await forecastGoal(makeGoal(), "2025-03-01");
+    expect(forecast.low).toBeLessThan(forecast.projected);
+    expect(forecast.high).toBeGreaterThan(forecast.projected);
+    expect(forecast.low).toBeGreaterThanOrEqual(forecast.current);
+  });
+
+  it("projects a reduction goal's average against its baseline", async () => {
+    getDaily.mockResolvedValue(history("2025-01-06", "2025-03-05", () => 7));
+    const goal = makeGoal({
+      type: "transport_reduction",
+      targetValue: 20,
+      period: "week",
+      startDate: "2025-03-03",
+      endDate: "2025-03-09",
+      baselineValue: 70,
+    });
+
+    const forecast = await forecastGoal(goal, "2025-03-06");
+    expect(forecast.current).toBeCloseTo(30);
+    expect(forecast.projected).toBeCloseTo(30);
+    expect(forecast.daysRemaining).toBe(4);
+    expect(forecast.onTrack).toBe(true);
+    expect(forecast.requiredDailyReduction).toBe(0);
+  });
+
+  it("can't project a reduction goal without a baseline", async () => {
+    getDaily.mockResolvedValue(history("2025-01-06", "2025-03-05", () => 7));
+    const goal = makeGoal({ type: "energy_reduction", targetValue: 20, currentValue: 12, baselineValue: null });
+
+    expect(await forecastGoal(goal, "2025-03-06")).toMatchObject({
+      current: 12,
+      projected: 12,
+      onTrack: false,
+      requiredDailyReduction: null,
+    });
+  });
+});
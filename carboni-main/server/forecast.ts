@@ -0,0 +1,125 @@
+import { storage, type DailyEmissions } from "./storage";
+import { measuredEmissions } from "./goals";
+import { addDays } from "@shared/goals";
+import type { Goal, GoalForecast, GoalType } from "@shared/schema";
+
+// Weeks before a goal starts that its weekday and weekend patterns come from
+const PATTERN_WEEKS = 8;
+// Two-sided 80% band of a normal distribution
+const BAND_Z = 1.28;
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+const isWeekend = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+interface DayStats {
+  mean: number;
+  variance: number;
+  count: number;
+}
+
+function getStats(values: number[]): DayStats {
+  const mean = values.length > 0 ? sum(values) / values.length : 0;
+  const variance =
+    values.length > 1 ? sum(values.map((value) => (value - mean) ** 2)) / (values.length - 1) : 0;
+  return { mean, variance, count: values.length };
+}
+
+// Days of the window still to come, including today until it is logged
+function getRemainingDays(goal: Goal, today: string, history: DailyEmissions[]): string[] {
+  const loggedToday = history.some((day) => day.date === today);
+  let day = loggedToday ? addDays(today, 1) : today;
+  if (day < goal.startDate) day = goal.startDate;
+
+  const days: string[] = [];
+  for (; day <= goal.endDate; day = addDays(day, 1)) days.push(day);
+  return days;
+}
+
+// Project where a goal will end up. Each remaining day is expected to follow
+// the user's weekday or weekend average, scaled by how the window has gone so
+// far against those averages; the band comes from the day-to-day spread.
+export async function forecastGoal(goal: Goal, today: string = toIsoDate(new Date())): Promise<GoalForecast> {
+  const type = goal.type as GoalType;
+  const measure = (day: DailyEmissions) => measuredEmissions(type, day);
+  const history = await storage.getDailyEmissions(
+    goal.userId,
+    addDays(goal.startDate, -PATTERN_WEEKS * 7),
+    goal.endDate < today ? goal.endDate : today,
+  );
+
+  const logged = history.filter((day) => day.date >= goal.startDate);
+  const soFar = sum(logged.map(measure));
+  const remaining = getRemainingDays(goal, today, history);
+
+  const overall = getStats(history.map(measure));
+  const weekday = getStats(history.filter((day) => !isWeekend(day.date)).map(measure));
+  const weekend = getStats(history.filter((day) => isWeekend(day.date)).map(measure));
+  const patternFor = (date: string) => {
+    const stats = isWeekend(date) ? weekend : weekday;
+    return stats.count > 1 ? stats : overall;
+  };
+
+  // How the logged days compare with what the patterns expected of them
+  const expectedSoFar = sum(logged.map((day) => patternFor(day.date).mean));
+  const pace = expectedSoFar > 0 ? soFar / expectedSoFar : 1;
+
+  const expectedRemaining = sum(remaining.map((date) => patternFor(date).mean * pace));
+  const spread = Math.sqrt(sum(remaining.map((date) => patternFor(date).variance * pace ** 2)));
+  const expectedDaily = remaining.length > 0 ? expectedRemaining / remaining.length : 0;
+  const base = { goalId: goal.id, daysRemaining: remaining.length, expectedDaily };
+
+  if (type === "monthly_target") {
+    const projected = soFar + expectedRemaining;
+    const onTrack = projected <= goal.targetValue;
+    const budget = goal.targetValue - soFar;
+    return {
+      ...base,
+      current: soFar,
+      projected,
+      low: Math.max(soFar, projected - BAND_Z * spread),
+      high: projected + BAND_Z * spread,
+      onTrack,
+      requiredDailyReduction: onTrack
+        ? 0
+        : remaining.length > 0 && budget >= 0
+          ? expectedDaily - budget / remaining.length
+          : null,
+    };
+  }
+
+  // Reduction goals are measured on average emissions per logged day
+  const baselineDaily = (goal.baselineValue ?? 0) / 7;
+  if (baselineDaily <= 0) {
+    const current = goal.currentValue ?? 0;
+    return { ...base, current, projected: current, low: current, high: current, onTrack: false, requiredDailyReduction: null };
+  }
+
+  const toReduction = (dailyAverage: number) => (1 - dailyAverage / baselineDaily) * 100;
+  const days = logged.length + remaining.length;
+  const projectedAverage = days > 0 ? (soFar + expectedRemaining) / days : 0;
+  const averageSpread = days > 0 ? spread / days : 0;
+  const projected = toReduction(projectedAverage);
+  const onTrack = projected >= goal.targetValue;
+
+  // Average the remaining days may reach for the window to hit the target
+  const allowedRemaining =
+    remaining.length > 0
+      ? (baselineDaily * (1 - goal.targetValue / 100) * days - soFar) / remaining.length
+      : -1;
+
+  return {
+    ...base,
+    current: logged.length > 0 ? toReduction(soFar / logged.length) : 0,
+    projected,
+    low: toReduction(projectedAverage + BAND_Z * averageSpread),
+    high: toReduction(projectedAverage - BAND_Z * averageSpread),
+    onTrack,
+    requiredDailyReduction: onTrack ? 0 : allowedRemaining >= 0 ? expectedDaily - allowedRemaining : null,
+  };
+}
@@ -0,0 +1,232 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { storage, type EmissionsSummary } from "./storage";
+import { evaluateGoal, expireGoals, refreshGoalProgress, validateGoalWindow, withGoalWindow } from "./goals";
+import type { Goal } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getEmissionsSummary: vi.fn(),
+    getUserGoals: vi.fn(),
+    getGoalsEndedBefore: vi.fn(),
+    getGoalsToRollOver: vi.fn(),
+    createGoal: vi.fn(),
+    updateGoal: vi.fn(),
+  },
+}));
+
+const summary = (total: number, days: number, parts: Partial<EmissionsSummary> = {}): EmissionsSummary => ({
+  transport: 0,
+  energy: 0,
+  food: 0,
+  total,
+  days,
+  ...parts,
+});
+
+const makeGoal = (overrides: Partial<Goal> = {}) =>
+  ({
+    id: 1,
+    userId: "user",
+    type: "monthly_target",
+    targetValue: 100,
+    currentValue: 0,
+    period: "month",
+    startDate: "2025-01-01",
+    endDate: "2025-01-31",
+    achieved: false,
+    status: "active",
+    baselineWeeks: null,
+    baselineValue: null,
+    recurring: false,
+    seriesId: null,
+    ...overrides,
+  }) as Goal;
+
+beforeEach(() => {
+  vi.mocked(storage.getEmissionsSummary).mockReset().mockResolvedValue(summary(0, 0));
+  vi.mocked(storage.getUserGoals).mockReset().mockResolvedValue([]);
+  vi.mocked(storage.getGoalsEndedBefore).mockReset().mockResolvedValue([]);
+  vi.mocked(storage.getGoalsToRollOver).mockReset().mockResolvedValue([]);
+
+  // Goals written during a test, so an update returns the whole stored goal
+  const stored = new Map<number, Goal>();
+  let nextId = 100;
+  vi.mocked(storage.createGoal).mockReset().mockImplementation(async (goal) => {
+    const created = makeGoal({ ...goal, id: nextId++ } as Partial<Goal>);
+    stored.set(created.id, created);
+    return created;
+  });
+  vi.mocked(storage.updateGoal).mockReset().mockImplementation(async (id, updates) => {
+    const updated = { ...(stored.get(id) ?? makeGoal({ id })), ...updates };
+    stored.set(id, updated);
+    return updated;
+  });
+});
+
+// Summaries by queried window, so the goal and its baseline can differ
+function mockSummaries(windows: Record<string, EmissionsSummary>) {
+  vi.mocked(storage.getEmissionsSummary).mockImplementation(
+    async (_userId, startDate, endDate) => windows[`${startDate}..${endDate}`] ?? summary(0, 0),
+  );
+}
+
+describe("evaluateGoal", () => {
+  it("tracks a monthly target's emissions and settles it once the window ends", async () => {
+    const goal = makeGoal({ targetValue: 100 });
+    mockSummaries({ "2025-01-01..2025-01-31": summary(80, 20) });
+
+    expect(await evaluateGoal(goal, "2025-01-20")).toEqual({ currentValue: 80, achieved: false, baselineValue: null, status: "active" });
+    expect(await evaluateGoal(goal, "2025-02-01")).toEqual({ currentValue: 80, achieved: true, baselineValue: null, status: "completed" });
+  });
+
+  it("fails a monthly target over its cap", async () => {
+    mockSummaries({ "2025-01-01..2025-01-31": summary(120, 31) });
+    expect(await evaluateGoal(makeGoal({ targetValue: 100 }), "2025-02-01")).toMatchObject({ achieved: false, status: "failed" });
+  });
+
+  it("measures a weekly reduction against the days just before the goal", async () => {
+    const goal = makeGoal({ type: "weekly_reduction", targetValue: 20, period: "week", startDate: "2025-01-08", endDate: "2025-01-14" });
+    mockSummaries({
+      "2025-01-01..2025-01-07": summary(70, 7),
+      "2025-01-08..2025-01-14": summary(42, 6),
+    });
+
+    // 7 kg a day against a baseline of 10
+    const evaluation = await evaluateGoal(goal, "2025-01-15");
+    expect(evaluation.currentValue).toBeCloseTo(30);
+    expect(evaluation).toMatchObject({ achieved: true, baselineValue: 70, status: "completed" });
+  });
+
+  it("has no progress without logged days or a baseline", async () => {
+    const goal = makeGoal({ type: "weekly_reduction", targetValue: 20, period: "week", startDate: "2025-01-08", endDate: "2025-01-14" });
+    mockSummaries({ "2025-01-08..2025-01-14": summary(48, 6) });
+    expect(await evaluateGoal(goal, "2025-01-10")).toEqual({ currentValue: 0, achieved: false, baselineValue: null, status: "active" });
+  });
+});
+
+describe("refreshGoalProgress", () => {
+  it("updates the goals whose window covers a changed date", async () => {
+    const january = makeGoal({ id: 1 });
+    const february = makeGoal({ id: 2, startDate: "2025-02-01", endDate: "2025-02-28" });
+    vi.mocked(storage.getUserGoals).mockResolvedValue([january, february]);
+    mockSummaries({ "2025-01-01..2025-01-31": summary(40, 3) });
+
+    await refreshGoalProgress("user", ["2025-01-15"]);
+
+    expect(storage.updateGoal).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(storage.updateGoal).mock.calls[0]).toEqual([1, expect.objectContaining({ currentValue: 40 })]);
+  });
+
+  it("leaves goals whose progress hasn't changed", async () => {
+    vi.mocked(storage.getUserGoals).mockResolvedValue([makeGoal({ endDate: "2099-01-31", currentValue: 0 })]);
+    await refreshGoalProgress("user");
+    expect(storage.updateGoal).not.toHaveBeenCalled();
+  });
+});
+
+describe("category reduction baselines", () => {
+  it("compares a category against its baseline weeks before the goal", async () => {
+    const goal = makeGoal({ type: "transport_reduction", targetValue: 25, baselineWeeks: 2, startDate: "2025-03-01", endDate: "2025-03-31" });
+    mockSummaries({
+      "2025-02-15..2025-02-28": summary(500, 14, { transport: 140 }),
+      "2025-03-01..2025-03-31": summary(400, 10, { transport: 60 }),
+    });
+
+    // 6 kg of transport a day against 10 in the baseline
+    const evaluation = await evaluateGoal(goal, "2025-03-20");
+    expect(evaluation.currentValue).toBeCloseTo(40);
+    expect(evaluation).toMatchObject({ baselineValue: 70, achieved: false, status: "active" });
+  });
+
+  it("reports a negative reduction when emissions went up", async () => {
+    const goal = makeGoal({ type: "energy_reduction", targetValue: 10, baselineWeeks: 1, startDate: "2025-03-01", endDate: "2025-03-07" });
+    mockSummaries({
+      "2025-02-22..2025-02-28": summary(100, 7, { energy: 35 }),
+      "2025-03-01..2025-03-07": summary(100, 7, { energy: 42 }),
+    });
+
+    const evaluation = await evaluateGoal(goal, "2025-03-08");
+    expect(evaluation.currentValue).toBeCloseTo(-20);
+    expect(evaluation).toMatchObject({ baselineValue: 35, achieved: false, status: "failed" });
+  });
+
+  it("defaults to the standard number of baseline weeks", async () => {
+    const goal = makeGoal({ type: "energy_reduction", startDate: "2025-03-01", endDate: "2025-03-31" });
+    await evaluateGoal(goal, "2025-03-10");
+    expect(vi.mocked(storage.getEmissionsSummary)).toHaveBeenCalledWith("user", "2025-02-01", "2025-02-28");
+  });
+
+  it("is refreshed when a day in its baseline changes", async () => {
+    const goal = makeGoal({ type: "transport_reduction", baselineWeeks: 2, startDate: "2025-03-01", endDate: "2025-03-31" });
+    vi.mocked(storage.getUserGoals).mockResolvedValue([goal]);
+    mockSummaries({
+      "2025-02-15..2025-02-28": summary(140, 14, { transport: 140 }),
+      "2025-03-01..2025-03-31": summary(50, 10, { transport: 50 }),
+    });
+
+    await refreshGoalProgress("user", ["2025-02-10"]);
+    expect(storage.updateGoal).not.toHaveBeenCalled();
+
+    await refreshGoalProgress("user", ["2025-02-20"]);
+    expect(vi.mocked(storage.updateGoal).mock.calls[0]).toEqual([1, expect.objectContaining({ baselineValue: 70 })]);
+  });
+});
+
+describe("goal lifecycle", () => {
+  it.each(["paused", "archived"])("keeps a %s goal's status after its window ends", async (status) => {
+    mockSummaries({ "2025-01-01..2025-01-31": summary(80, 20) });
+    expect(await evaluateGoal(makeGoal({ status }), "2025-02-01")).toMatchObject({ achieved: true, status });
+  });
+
+  it("settles the active goals that have ended", async () => {
+    const met = makeGoal({ id: 1 });
+    const missed = makeGoal({ id: 2, userId: "other" });
+    vi.mocked(storage.getGoalsEndedBefore).mockResolvedValue([met, missed]);
+    vi.mocked(storage.getEmissionsSummary).mockImplementation(async (userId) => (userId === "user" ? summary(60, 31) : summary(140, 31)));
+
+    expect(await expireGoals(new Date("2025-02-01T01:00:00Z"))).toBe(2);
+    expect(vi.mocked(storage.getGoalsEndedBefore)).toHaveBeenCalledWith("2025-02-01");
+    expect(vi.mocked(storage.updateGoal).mock.calls).toEqual([
+      [1, expect.objectContaining({ status: "completed", achieved: true })],
+      [2, expect.objectContaining({ status: "failed", achieved: false })],
+    ]);
+  });
+
+  it("keeps settling other goals when one fails", async () => {
+    vi.mocked(storage.getGoalsEndedBefore).mockResolvedValue([makeGoal({ id: 1 }), makeGoal({ id: 2 })]);
+    vi.mocked(storage.getEmissionsSummary).mockRejectedValueOnce(new Error("connection lost"));
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await expireGoals(new Date("2025-02-01T01:00:00Z"))).toBe(1);
+    expect(vi.mocked(storage.updateGoal).mock.calls.map(([id]) => id)).toEqual([2]);
+    expect(logged).toHaveBeenCalledOnce();
+    logged.mockRestore();
+  });
+
+  it("fits a recurring goal's window to one period and rejects inverted windows", () => {
+    expect(withGoalWindow({ startDate: "2025-03-10", endDate: "2025-12-31", period: "week", recurring: true }).endDate).toBe("2025-03-16");
+    expect(withGoalWindow({ startDate: "2025-03-10", endDate: "2025-12-31", period: "week", recurring: false }).endDate).toBe("2025-12-31");
+    expect(() => validateGoalWindow({ startDate: "2025-03-10", endDate: "2025-03-09" })).toThrow(z.ZodError);
+    expect(() => validateGoalWindow({ startDate: "2025-03-10", endDate: "2025-03-10" })).not.toThrow();
+  });
+});
+
+describe("expireGoals rollover", () => {
+  it("lays monthly periods out from the series' first start date", async () => {
+    const first = makeGoal({ id: 1, startDate: "2025-01-31", endDate: "2025-02-27", status: "completed", recurring: true, seriesId: 1 });
+    const second = makeGoal({ id: 2, startDate: "2025-02-28", endDate: "2025-03-30", status: "failed", recurring: true, seriesId: 1 });
+    vi.mocked(storage.getUserGoals).mockResolvedValue([second, first]);
+    vi.mocked(storage.getGoalsToRollOver).mockResolvedValue([second]);
+
+    await expireGoals(new Date("2025-06-05T12:00:00Z"));
+
+    const windows = vi.mocked(storage.createGoal).mock.calls.map(([goal]) => [goal.startDate, goal.endDate]);
+    expect(windows).toEqual([
+      ["2025-03-31", "2025-04-29"],
+      ["2025-04-30", "2025-05-30"],
+      ["2025-05-31", "2025-06-29"],
+    ]);
+    expect(vi.mocked(storage.createGoal).mock.calls.every(([goal]) => goal.seriesId === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,192 @@
+import { z } from "zod";
+import { storage, type EmissionsSummary } from "./storage";
+import { addDays, getGoalSeries, getPeriodEnd } from "@shared/goals";
+import {
+  CATEGORY_REDUCTION_GOAL_TYPES,
+  DEFAULT_BASELINE_WEEKS,
+  type Goal,
+  type GoalPeriod,
+  type GoalStatus,
+  type GoalType,
+  type InsertGoal,
+} from "@shared/schema";
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / 86_400_000) + 1;
+}
+
+// The emissions each goal type is measured on
+export function measuredEmissions(
+  type: GoalType,
+  summary: Pick<EmissionsSummary, "transport" | "energy" | "total">,
+): number {
+  if (type === "transport_reduction") return summary.transport;
+  if (type === "energy_reduction") return summary.energy;
+  return summary.total;
+}
+
+const isCategoryReduction = (type: string) =>
+  (CATEGORY_REDUCTION_GOAL_TYPES as readonly string[]).includes(type);
+
+// Category reduction goals compare against the goal's baseline weeks before it
+// starts; weekly_reduction against the same number of days just before it
+function getBaselineWindow(goal: Pick<Goal, "type" | "startDate" | "endDate" | "baselineWeeks">) {
+  const length = isCategoryReduction(goal.type)
+    ? (goal.baselineWeeks ?? DEFAULT_BASELINE_WEEKS) * 7
+    : daysBetween(goal.startDate, goal.endDate);
+  return { startDate: addDays(goal.startDate, -length), endDate: addDays(goal.startDate, -1) };
+}
+
+// Paused and archived goals stay where the user put them; any other goal is
+// active until its window ends and then completed or failed
+function resolveStatus(goal: Goal, achieved: boolean, ended: boolean): GoalStatus {
+  if (goal.status === "paused" || goal.status === "archived") return goal.status;
+  if (!ended) return "active";
+  return achieved ? "completed" : "failed";
+}
+
+// Progress on a goal from the user's confirmed activities. monthly_target
+// tracks emissions against the cap. Reduction goals track the percentage cut
+// in average emissions per logged day from the baseline, negative when
+// emissions went up; the baseline is kept on the goal in kg CO2e per week. A
+// goal is achieved once its window has ended with the target met.
+export async function evaluateGoal(goal: Goal, today: string = toIsoDate(new Date())) {
+  const type = goal.type as GoalType;
+  const ended = goal.endDate < today;
+  const summary = await storage.getEmissionsSummary(goal.userId, goal.startDate, goal.endDate);
+  const emissions = measuredEmissions(type, summary);
+
+  if (type === "monthly_target") {
+    const achieved = ended && emissions <= goal.targetValue;
+    return { currentValue: emissions, achieved, baselineValue: null, status: resolveStatus(goal, achieved, ended) };
+  }
+
+  const baselineWindow = getBaselineWindow(goal);
+  const baseline = await storage.getEmissionsSummary(goal.userId, baselineWindow.startDate, baselineWindow.endDate);
+  const baselineDaily = baseline.days > 0 ? measuredEmissions(type, baseline) / baseline.days : 0;
+  const baselineValue = baseline.days > 0 ? baselineDaily * 7 : null;
+  if (summary.days === 0 || baselineDaily <= 0) {
+    return { currentValue: 0, achieved: false, baselineValue, status: resolveStatus(goal, false, ended) };
+  }
+
+  const reduction = (1 - emissions / summary.days / baselineDaily) * 100;
+  const achieved = ended && reduction >= goal.targetValue;
+  return { currentValue: reduction, achieved, baselineValue, status: resolveStatus(goal, achieved, ended) };
+}
+
+// A recurring goal's window is always one period from its start date
+export function withGoalWindow<T extends Pick<Goal, "startDate" | "endDate" | "period"> & { recurring?: boolean }>(
+  goal: T,
+): T {
+  return goal.recurring ? { ...goal, endDate: getPeriodEnd(goal.startDate, goal.period as GoalPeriod) } : goal;
+}
+
+// Edits may move either end of a goal's window, so it is checked once the
+// edit is merged into the stored goal
+export function validateGoalWindow(goal: Pick<Goal, "startDate" | "endDate">): void {
+  if (goal.endDate < goal.startDate) {
+    throw new z.ZodError([
+      { code: z.ZodIssueCode.custom, path: ["endDate"], message: "End date must not be before the start date" },
+    ]);
+  }
+}
+
+// Re-evaluate the user's goals after their activities changed. With dates,
+// only goals whose window or baseline covers one of them are touched.
+// Failures are logged rather than thrown, since the activity change they
+// follow has already been saved.
+export async function refreshGoalProgress(userId: string, dates?: string[]): Promise<void> {
+  try {
+    const goals = await storage.getUserGoals(userId);
+    const today = toIsoDate(new Date());
+
+    for (const goal of goals) {
+      if (goal.status === "archived") continue;
+      const from = goal.type === "monthly_target" ? goal.startDate : getBaselineWindow(goal).startDate;
+      if (dates && !dates.some((date) => date >= from && date <= goal.endDate)) continue;
+
+      const evaluation = await evaluateGoal(goal, today);
+      if (
+        evaluation.currentValue !== goal.currentValue ||
+        evaluation.achieved !== goal.achieved ||
+        evaluation.baselineValue !== goal.baselineValue ||
+        evaluation.status !== goal.status
+      ) {
+        await storage.updateGoal(goal.id, evaluation);
+      }
+    }
+  } catch (error) {
+    console.error(`Error refreshing goals for ${userId}:`, error);
+  }
+}
+
+// Create a goal and evaluate it against what's already logged, since goals
+// may start in the past
+export async function createGoal(
+  goal: InsertGoal & { seriesId?: number | null },
+  today: string = toIsoDate(new Date()),
+): Promise<Goal> {
+  const created = await storage.createGoal(goal);
+  const seriesId = created.recurring ? created.seriesId ?? created.id : null;
+  return await storage.updateGoal(created.id, { seriesId, ...(await evaluateGoal({ ...created, seriesId }, today)) });
+}
+
+// Start date of a series' earliest remaining instance, which its monthly
+// periods are laid out from
+async function getSeriesAnchor(goal: Goal): Promise<string> {
+  const series = getGoalSeries(await storage.getUserGoals(goal.userId), goal);
+  return series[series.length - 1]?.startDate ?? goal.startDate;
+}
+
+// The next instance of a recurring goal, for the period after it
+async function rollOverGoal(goal: Goal, today: string, anchorDate: string): Promise<Goal> {
+  const startDate = addDays(goal.endDate, 1);
+  return await createGoal(
+    {
+      userId: goal.userId,
+      type: goal.type as GoalType,
+      targetValue: goal.targetValue,
+      period: goal.period as GoalPeriod,
+      startDate,
+      endDate: getPeriodEnd(startDate, goal.period as GoalPeriod, anchorDate),
+      baselineWeeks: goal.baselineWeeks,
+      recurring: true,
+      seriesId: goal.seriesId ?? goal.id,
+    },
+    today,
+  );
+}
+
+// Settle active goals whose window has ended as completed or failed, then
+// start the next period of each settled recurring goal, catching up on any
+// periods missed in between. Returns the number of goals settled or created.
+export async function expireGoals(now: Date = new Date()): Promise<number> {
+  const today = toIsoDate(now);
+  let updated = 0;
+
+  for (const goal of await storage.getGoalsEndedBefore(today)) {
+    try {
+      await storage.updateGoal(goal.id, await evaluateGoal(goal, today));
+      updated++;
+    } catch (error) {
+      console.error(`Error settling goal ${goal.id}:`, error);
+    }
+  }
+
+  for (const goal of await storage.getGoalsToRollOver(today)) {
+    try {
+      const anchorDate = await getSeriesAnchor(goal);
+      let next = await rollOverGoal(goal, today, anchorDate);
+      updated++;
+      while (next.endDate < today) {
+        next = await rollOverGoal(next, today, anchorDate);
+        updated++;
+      }
+    } catch (error) {
+      console.error(`Error rolling over goal ${goal.id}:`, error);
+    }
+  }
+  return updated;
+}
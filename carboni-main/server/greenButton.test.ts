@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { getUsageDayCount, parseGreenButton, spreadUsageByDay } from "./greenButton";
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+// 2024-03-01T00:00:00Z
+const MARCH_1 = 1709251200;
+
+interface Reading {
+  start: number;
+  duration: number;
+  value: number;
+}
+
+const entry = (self: string, resource: string, up?: string) => `
+  <entry>
+    <link rel="self" href="${self}"/>
+    ${up ? `<link rel="up" href="${up}"/>` : ""}
+    <content>${resource}</content>
+  </entry>`;
+
+const intervalReading = ({ start, duration, value }: Reading) =>
+  `<IntervalReading><timePeriod><duration>${duration}</duration><start>${start}</start></timePeriod><value>${value}</value></IntervalReading>`;
+
+// A single-meter electricity feed with readings in Wh
+function electricityFeed(readings: Reading[], { flowDirection = 1, tzOffset = 0 } = {}) {
+  const base = "https://utility.example/espi/1_1/resource/Subscription/1/UsagePoint/1";
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:espi="http://naesb.org/espi">
+  ${entry(base, "<espi:UsagePoint><espi:ServiceCategory><espi:kind>0</espi:kind></espi:ServiceCategory></espi:UsagePoint>")}
+  ${entry("https://utility.example/espi/1_1/resource/LocalTimeParameters/1", `<espi:LocalTimeParameters><espi:tzOffset>${tzOffset}</espi:tzOffset></espi:LocalTimeParameters>`)}
+  <entry>
+    <link rel="self" href="${base}/MeterReading/1"/>
+    <link rel="related" href="https://utility.example/espi/1_1/resource/ReadingType/1"/>
+    <content><espi:MeterReading/></content>
+  </entry>
+  ${entry("https://utility.example/espi/1_1/resource/ReadingType/1", `<espi:ReadingType><espi:commodity>1</espi:commodity><espi:flowDirection>${flowDirection}</espi:flowDirection><espi:powerOfTenMultiplier>0</espi:powerOfTenMultiplier><espi:uom>72</espi:uom></espi:ReadingType>`)}
+  ${entry(`${base}/MeterReading/1/IntervalBlock/1`, `<espi:IntervalBlock>${readings.map(intervalReading).join("")}</espi:IntervalBlock>`, `${base}/MeterReading/1/IntervalBlock`)}
+</feed>`;
+}
+
+describe("parseGreenButton", () => {
+  it("reads interval readings in kWh", () => {
+    const usage = parseGreenButton(
+      electricityFeed([
+        { start: MARCH_1, duration: HOUR, value: 1500 },
+        { start: MARCH_1 + HOUR, duration: HOUR, value: 500 },
+      ]),
+    );
+    expect(usage.skippedReadings).toBe(0);
+    expect(usage.intervals).toEqual([
+      { commodity: "electricity", start: MARCH_1, duration: HOUR, value: 1.5 },
+      { commodity: "electricity", start: MARCH_1 + HOUR, duration: HOUR, value: 0.5 },
+    ]);
+  });
+
+  it("skips negative readings", () => {
+    const usage = parseGreenButton(
+      electricityFeed([
+        { start: MARCH_1, duration: HOUR, value: -800 },
+        { start: MARCH_1 + HOUR, duration: HOUR, value: 500 },
+      ]),
+    );
+    expect(usage.skippedReadings).toBe(1);
+    expect(usage.intervals.map((interval) => interval.value)).toEqual([0.5]);
+  });
+
+  it("skips readings that aren't delivered to the customer", () => {
+    const usage = parseGreenButton(electricityFeed([{ start: MARCH_1, duration: HOUR, value: 800 }], { flowDirection: 19 }));
+    expect(usage.skippedReadings).toBe(1);
+    expect(usage.intervals).toEqual([]);
+  });
+
+  it("skips readings with corrupt periods", () => {
+    const usage = parseGreenButton(
+      electricityFeed([
+        { start: MARCH_1, duration: 0, value: 100 },
+        { start: MARCH_1, duration: 500 * DAY, value: 100 },
+        { start: 0, duration: HOUR, value: 100 },
+      ]),
+    );
+    expect(usage.skippedReadings).toBe(3);
+    expect(usage.intervals).toEqual([]);
+  });
+
+  it("rejects files that aren't feeds or have an impossible time offset", () => {
+    expect(() => parseGreenButton("<html></html>")).toThrow("no feed entries");
+    expect(() => parseGreenButton(electricityFeed([], { tzOffset: 15 * HOUR }))).toThrow("out of range");
+  });
+});
+
+describe("spreadUsageByDay", () => {
+  it("splits an interval across local days in proportion to its hours", () => {
+    const usage = parseGreenButton(
+      electricityFeed([{ start: MARCH_1 + 18 * HOUR, duration: 12 * HOUR, value: 12000 }], { tzOffset: -5 * HOUR }),
+    );
+    // 13:00 to 01:00 local time: eleven hours on the 1st, one on the 2nd
+    expect(spreadUsageByDay(usage)).toEqual([
+      { date: "2024-03-01", electricityUsage: 11, naturalGasUsage: null },
+      { date: "2024-03-02", electricityUsage: 1, naturalGasUsage: null },
+    ]);
+    expect(getUsageDayCount(usage)).toBe(2);
+  });
+
+  it("sums the intervals of each day", () => {
+    const readings = Array.from({ length: 24 }, (_, hour) => ({ start: MARCH_1 + hour * HOUR, duration: HOUR, value: 250 }));
+    expect(spreadUsageByDay(parseGreenButton(electricityFeed(readings)))).toEqual([
+      { date: "2024-03-01", electricityUsage: 6, naturalGasUsage: null },
+    ]);
+  });
+});
@@ -0,0 +1,272 @@
+import { toTherms } from "@shared/units";
+import { parseXml, child, childrenNamed, descendants, type XmlElement } from "./xml";
+
+// Green Button (NAESB ESPI) usage parser. A Green Button download is an Atom
+// feed whose entries hold UsagePoint, MeterReading, ReadingType, IntervalBlock
+// and UsageSummary resources. Interval readings are preferred; billing-period
+// summaries are used for a commodity only when the file has no intervals for it.
+
+function numberAt(element: XmlElement | undefined, ...path: string[]): number | null {
+  const target = path.reduce<XmlElement | undefined>((current, name) => child(current, name), element);
+  if (!target) return null;
+  const value = Number(target.text.trim());
+  return Number.isFinite(value) ? value : null;
+}
+
+export type UtilityCommodity = "electricity" | "naturalGas";
+
+// ESPI unit of measure codes we can convert
+const UOM_WH = 72;
+const UOM_M3 = 42;
+const UOM_FT3 = 119;
+const UOM_THERM = 169;
+const M3_PER_FT3 = 0.0283168;
+
+// ReadingType flowDirection of energy delivered to the customer. Reverse flow
+// (solar export) and net readings aren't consumption.
+const FLOW_FORWARD = 1;
+
+// ServiceCategory kinds and ReadingType commodities for each supported utility
+const ELECTRICITY_KINDS = [0];
+const GAS_KINDS = [1];
+const ELECTRICITY_COMMODITIES = [1, 2, 4];
+const GAS_COMMODITIES = [7];
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Readings longer than a billing period, starting outside 2000-2099 or with a
+// local offset beyond UTC±14h are corrupt; spreading them would produce
+// thousands of days
+const MAX_READING_SECONDS = 400 * SECONDS_PER_DAY;
+const MIN_READING_START = Date.UTC(2000, 0, 1) / 1000;
+const MAX_READING_START = Date.UTC(2100, 0, 1) / 1000;
+const MAX_TZ_OFFSET = 14 * 60 * 60;
+
+function toPeriod(start: number | null, duration: number | null): { start: number; duration: number } | null {
+  if (start === null || start < MIN_READING_START || start >= MAX_READING_START) return null;
+  if (duration === null || duration <= 0 || duration > MAX_READING_SECONDS) return null;
+  return { start, duration };
+}
+
+interface ReadingType {
+  uom: number | null;
+  powerOfTenMultiplier: number;
+  commodity: number | null;
+  flowDirection: number | null;
+}
+
+interface UsageInterval {
+  commodity: UtilityCommodity;
+  start: number; // unix seconds
+  duration: number; // seconds
+  value: number; // kWh for electricity, therms for gas
+}
+
+// Canonical amount (kWh or therms) of a raw reading, or null for units we can't
+// convert and for readings that aren't usage delivered to the customer
+function toCanonical(value: number, readingType: ReadingType, commodity: UtilityCommodity): number | null {
+  if (value < 0) return null;
+  if (readingType.flowDirection !== null && readingType.flowDirection !== FLOW_FORWARD) return null;
+  const amount = value * 10 ** readingType.powerOfTenMultiplier;
+  switch (readingType.uom) {
+    case UOM_WH:
+      return commodity === "electricity" ? amount / 1000 : toTherms(amount / 1000, "kwh");
+    case UOM_THERM:
+      return commodity === "naturalGas" ? amount : null;
+    case UOM_M3:
+      return commodity === "naturalGas" ? toTherms(amount, "m3") : null;
+    case UOM_FT3:
+      return commodity === "naturalGas" ? toTherms(amount * M3_PER_FT3, "m3") : null;
+    default:
+      return null;
+  }
+}
+
+function getCommodity(kind: number | null, readingType: ReadingType): UtilityCommodity | null {
+  if (kind !== null && ELECTRICITY_KINDS.includes(kind)) return "electricity";
+  if (kind !== null && GAS_KINDS.includes(kind)) return "naturalGas";
+  if (readingType.commodity !== null && ELECTRICITY_COMMODITIES.includes(readingType.commodity)) return "electricity";
+  if (readingType.commodity !== null && GAS_COMMODITIES.includes(readingType.commodity)) return "naturalGas";
+  if (readingType.uom === UOM_THERM || readingType.uom === UOM_M3 || readingType.uom === UOM_FT3) return "naturalGas";
+  return null;
+}
+
+const linkHref = (entry: XmlElement, rel: string) =>
+  childrenNamed(entry, "link").find((link) => link.attributes.rel === rel)?.attributes.href;
+
+// Resource paths relate entries: .../UsagePoint/1/MeterReading/1/IntervalBlock/1
+const pathUpTo = (href: string | undefined, segment: string) => {
+  const index = href?.indexOf(`/${segment}/`) ?? -1;
+  if (!href || index === -1) return undefined;
+  const rest = href.slice(index + segment.length + 2);
+  return href.slice(0, index + segment.length + 2) + rest.split("/")[0];
+};
+
+export interface GreenButtonUsage {
+  intervals: UsageInterval[];
+  // Offset of the customer's local time from UTC, in seconds
+  tzOffset: number;
+  skippedReadings: number;
+}
+
+// Read the usage intervals of a Green Button file. Entries are related through
+// their Atom links, falling back to document order (the usual layout of a
+// single-customer download) when links are missing.
+export function parseGreenButton(xml: string): GreenButtonUsage {
+  const feed = parseXml(xml);
+  const entries = descendants(feed, "entry");
+  if (entries.length === 0) throw new Error("Not a Green Button file: no feed entries found");
+
+  const contentOf = (entry: XmlElement) => child(entry, "content")?.children[0];
+  const readingTypes = new Map<string, ReadingType>();
+  const meterReadingTypes = new Map<string, string>();
+  const usagePointKinds = new Map<string, number | null>();
+  let tzOffset = 0;
+
+  // First pass: metadata that interval blocks refer to
+  for (const entry of entries) {
+    const resource = contentOf(entry);
+    const self = linkHref(entry, "self");
+    if (!resource || !self) continue;
+
+    if (resource.name === "ReadingType") {
+      readingTypes.set(self, {
+        uom: numberAt(resource, "uom"),
+        powerOfTenMultiplier: numberAt(resource, "powerOfTenMultiplier") ?? 0,
+        commodity: numberAt(resource, "commodity"),
+        flowDirection: numberAt(resource, "flowDirection"),
+      });
+    } else if (resource.name === "MeterReading") {
+      const related = childrenNamed(entry, "link").find(
+        (link) => link.attributes.rel === "related" && link.attributes.href?.includes("/ReadingType/"),
+      );
+      if (related) meterReadingTypes.set(self, related.attributes.href);
+    } else if (resource.name === "UsagePoint") {
+      usagePointKinds.set(self, numberAt(resource, "ServiceCategory", "kind"));
+    } else if (resource.name === "LocalTimeParameters") {
+      tzOffset = numberAt(resource, "tzOffset") ?? 0;
+      if (Math.abs(tzOffset) > MAX_TZ_OFFSET) throw new Error("The file's local time offset is out of range");
+    }
+  }
+
+  const intervals: UsageInterval[] = [];
+  const summaries: UsageInterval[] = [];
+  let skippedReadings = 0;
+  let currentKind: number | null = null;
+  let currentReadingType: ReadingType | null = null;
+
+  for (const entry of entries) {
+    const resource = contentOf(entry);
+    if (!resource) continue;
+    const self = linkHref(entry, "self");
+
+    if (resource.name === "UsagePoint") {
+      currentKind = numberAt(resource, "ServiceCategory", "kind");
+    } else if (resource.name === "ReadingType") {
+      currentReadingType = (self && readingTypes.get(self)) || null;
+    } else if (resource.name === "MeterReading") {
+      const typeHref = self && meterReadingTypes.get(self);
+      currentReadingType = (typeHref && readingTypes.get(typeHref)) || currentReadingType;
+    } else if (resource.name === "IntervalBlock") {
+      const up = linkHref(entry, "up") ?? self;
+      const meterReading = pathUpTo(up, "MeterReading");
+      const typeHref = meterReading && meterReadingTypes.get(meterReading);
+      const readingType = (typeHref && readingTypes.get(typeHref)) || currentReadingType;
+      const usagePoint = pathUpTo(up, "UsagePoint");
+      const kind = usagePoint && usagePointKinds.has(usagePoint) ? usagePointKinds.get(usagePoint)! : currentKind;
+      const commodity = readingType ? getCommodity(kind, readingType) : null;
+
+      for (const block of childrenNamed(child(entry, "content"), "IntervalBlock")) {
+        for (const reading of childrenNamed(block, "IntervalReading")) {
+          const start = numberAt(reading, "timePeriod", "start");
+          const duration = numberAt(reading, "timePeriod", "duration");
+          const raw = numberAt(reading, "value");
+          const value = readingType && commodity && raw !== null ? toCanonical(raw, readingType, commodity) : null;
+          const period = toPeriod(start, duration);
+          if (!commodity || !period || value === null) {
+            skippedReadings++;
+            continue;
+          }
+          intervals.push({ commodity, ...period, value });
+        }
+      }
+    } else if (resource.name === "UsageSummary") {
+      const up = linkHref(entry, "up") ?? self;
+      const usagePoint = pathUpTo(up, "UsagePoint");
+      const kind = usagePoint && usagePointKinds.has(usagePoint) ? usagePointKinds.get(usagePoint)! : currentKind;
+      const consumption = child(resource, "overallConsumptionLastPeriod");
+      const summaryType: ReadingType = {
+        uom: numberAt(consumption, "uom"),
+        powerOfTenMultiplier: numberAt(consumption, "powerOfTenMultiplier") ?? 0,
+        commodity: null,
+        flowDirection: null,
+      };
+      const commodity = getCommodity(kind, summaryType);
+      const start = numberAt(resource, "billingPeriod", "start");
+      const duration = numberAt(resource, "billingPeriod", "duration");
+      const raw = numberAt(consumption, "value");
+      const value = commodity && raw !== null ? toCanonical(raw, summaryType, commodity) : null;
+      const period = toPeriod(start, duration);
+      if (!commodity || !period || value === null) {
+        skippedReadings++;
+        continue;
+      }
+      summaries.push({ commodity, ...period, value });
+    }
+  }
+
+  const withIntervals = new Set(intervals.map((interval) => interval.commodity));
+  return {
+    intervals: [...intervals, ...summaries.filter((summary) => !withIntervals.has(summary.commodity))],
+    tzOffset,
+    skippedReadings,
+  };
+}
+
+export interface DailyUtilityUsage {
+  date: string;
+  electricityUsage: number | null; // kWh
+  naturalGasUsage: number | null; // therms
+}
+
+// Number of local calendar days from the first reading to the end of the
+// last, so the caller can refuse a file before spreading it
+export function getUsageDayCount({ intervals, tzOffset }: GreenButtonUsage): number {
+  if (intervals.length === 0) return 0;
+  let firstStart = Infinity;
+  let lastEnd = -Infinity;
+  for (const interval of intervals) {
+    firstStart = Math.min(firstStart, interval.start);
+    lastEnd = Math.max(lastEnd, interval.start + interval.duration);
+  }
+  return Math.ceil((lastEnd + tzOffset) / SECONDS_PER_DAY) - Math.floor((firstStart + tzOffset) / SECONDS_PER_DAY);
+}
+
+// Spread usage over the customer's local calendar days in proportion to how
+// much of each interval falls on each day. Daylight saving shifts are ignored.
+export function spreadUsageByDay({ intervals, tzOffset }: GreenButtonUsage): DailyUtilityUsage[] {
+  const days = new Map<string, DailyUtilityUsage>();
+
+  for (const interval of intervals) {
+    const start = interval.start + tzOffset;
+    const end = start + interval.duration;
+    let cursor = start;
+    while (cursor < end) {
+      const dayStart = Math.floor(cursor / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+      const segmentEnd = Math.min(end, dayStart + SECONDS_PER_DAY);
+      const share = (interval.value * (segmentEnd - cursor)) / interval.duration;
+      const date = new Date(dayStart * 1000).toISOString().split("T")[0];
+
+      const day = days.get(date) ?? { date, electricityUsage: null, naturalGasUsage: null };
+      const field = interval.commodity === "electricity" ? "electricityUsage" : "naturalGasUsage";
+      day[field] = (day[field] ?? 0) + share;
+      days.set(date, day);
+      cursor = segmentEnd;
+    }
+  }
+
+  const round = (value: number | null) => (value === null ? null : Math.round(value * 1000) / 1000);
+  return Array.from(days.values())
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((day) => ({ ...day, electricityUsage: round(day.electricityUsage), naturalGasUsage: round(day.naturalGasUsage) }));
+}
@@ -0,0 +1,364 @@
+import { z } from "zod";
+import { storage, type ActivityReplacement, type NewActivity } from "./storage";
+import { prepareActivity, prepareActivityUpdate, prepareActivityMerge, getLoggableDateRange } from "./activities";
+import { calculateActivityEmissions } from "./emissionFactors";
+import { refreshGoalProgress } from "./goals";
+import { getUsageDayCount, parseGreenButton, spreadUsageByDay, type GreenButtonUsage } from "./greenButton";
+import { parseTrackFile, summarizeTrack, type Track } from "./tracks";
+import { parseCsv } from "@shared/csv";
+import { isGroundTransportType } from "@shared/emissions";
+import { getUnitPreferences, fromTherms, fromMiles } from "@shared/units";
+import type {
+  ActivityImportRequest,
+  GreenButtonDay,
+  GreenButtonDayStatus,
+  GreenButtonImportRequest,
+  GreenButtonReport,
+  ImportField,
+  ImportReport,
+  ImportRowResult,
+  TrackImportReport,
+  TrackImportRequest,
+  TrackImportRow,
+} from "@shared/schema";
+
+// Largest file accepted in one import, in data rows
+export const MAX_IMPORT_ROWS = 5000;
+
+// Imported days wait in the review queue until the user confirms them. Days
+// that were already logged keep their status when an import adds to them.
+const asDraft = (entry: NewActivity): NewActivity => ({ ...entry, activity: { ...entry.activity, status: "draft" } });
+
+// Problems with the file as a whole rather than one of its rows
+function invalidFile(path: string[], message: string): z.ZodError {
+  return new z.ZodError([{ code: z.ZodIssueCode.custom, path, message }]);
+}
+
+// Spreadsheets commonly write dates as M/D/YYYY; activities use YYYY-MM-DD.
+// Returns null for anything that is not a real calendar date.
+function normalizeDate(value: string): string | null {
+  const usDate = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const isoDate = usDate
+    ? `${usDate[3]}-${usDate[1].padStart(2, "0")}-${usDate[2].padStart(2, "0")}`
+    : value;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(isoDate)) return null;
+
+  const parsed = new Date(`${isoDate}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(isoDate) ? isoDate : null;
+}
+
+// Build an activity payload from a row through the column mapping. Blank
+// cells are left out; numbers may use thousands separators.
+function readRow(cells: string[], columns: Partial<Record<ImportField, number>>) {
+  const payload: Record<string, string | number> = {};
+  const errors: string[] = [];
+
+  for (const [field, column] of Object.entries(columns) as [ImportField, number][]) {
+    const raw = (cells[column] ?? "").trim();
+    if (raw === "") continue;
+
+    if (field === "date") {
+      const date = normalizeDate(raw);
+      if (date) payload.date = date;
+      else errors.push(`date: "${raw}" is not a YYYY-MM-DD or M/D/YYYY date`);
+    } else if (field === "transportType") {
+      if (isGroundTransportType(raw)) payload.transportType = raw;
+      else errors.push(`transportType: Unknown transport type "${raw}"`);
+    } else {
+      const value = Number(raw.replace(/,/g, ""));
+      if (Number.isNaN(value)) {
+        errors.push(`${field}: "${raw}" is not a number`);
+      } else {
+        payload[field] = value;
+      }
+    }
+  }
+
+  if (!payload.date && !errors.some((error) => error.startsWith("date:"))) errors.push("date: Required");
+  return { payload, errors };
+}
+
+const formatIssues = (error: z.ZodError) =>
+  error.errors.map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+
+// Validate every row of an import and run the emissions engine over the valid
+// ones. Rows for a day that already has an activity, or that repeat an earlier
+// row's date, are reported as duplicates and skipped. Unless this is a dry
+// run, accepted rows are saved in a single transaction.
+export async function importActivities(userId: string, request: ActivityImportRequest): Promise<ImportReport> {
+  const [header, ...dataRows] = parseCsv(request.csv);
+  if (!header || dataRows.length === 0) throw invalidFile(["csv"], "The file has no data rows");
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw invalidFile(["csv"], `Files are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const columns: Partial<Record<ImportField, number>> = {};
+  for (const [field, columnName] of Object.entries(request.mapping) as [ImportField, string][]) {
+    const index = header.findIndex((name) => name.trim() === columnName.trim());
+    if (index === -1) throw invalidFile(["mapping", field], `Column "${columnName}" is not in the file`);
+    columns[field] = index;
+  }
+
+  const { latestDate } = getLoggableDateRange();
+  const rows: ImportRowResult[] = [];
+  const accepted: { result: ImportRowResult; entry: NewActivity }[] = [];
+  const rowByDate = new Map<string, number>();
+
+  for (let index = 0; index < dataRows.length; index++) {
+    const row = index + 2;
+    const { payload, errors } = readRow(dataRows[index], columns);
+    const date = typeof payload.date === "string" ? payload.date : null;
+    const result: ImportRowResult = { row, date, status: "rejected", errors, totalEmissions: null };
+    rows.push(result);
+
+    if (date && date > latestDate) errors.push("date: Date cannot be in the future");
+    if (errors.length > 0) continue;
+
+    try {
+      const prepared = await prepareActivity(userId, payload);
+      const earlierRow = rowByDate.get(prepared.activity.date);
+      if (earlierRow) {
+        result.status = "duplicate";
+        result.errors = [`Same date as row ${earlierRow}`];
+        continue;
+      }
+
+      rowByDate.set(prepared.activity.date, row);
+      result.status = "accepted";
+      result.totalEmissions = prepared.activity.totalEmissions;
+      accepted.push({ result, entry: asDraft(prepared) });
+    } catch (error) {
+      if (!(error instanceof z.ZodError)) throw error;
+      result.errors = formatIssues(error);
+    }
+  }
+
+  // Days the user has already logged are not overwritten by an import
+  const acceptedDates = Array.from(rowByDate.keys()).sort();
+  if (acceptedDates.length > 0) {
+    const existing = await storage.getUserActivitiesByDateRange(
+      userId,
+      acceptedDates[0],
+      acceptedDates[acceptedDates.length - 1],
+    );
+    const loggedDates = new Set(existing.map((activity) => activity.date));
+    for (const result of rows) {
+      if (result.status === "accepted" && result.date && loggedDates.has(result.date)) {
+        result.status = "duplicate";
+        result.errors = ["An activity is already logged for this date"];
+        result.totalEmissions = null;
+      }
+    }
+  }
+
+  const toSave = accepted.filter(({ result }) => result.status === "accepted").map(({ entry }) => entry);
+
+  if (!request.dryRun && toSave.length > 0) {
+    await storage.saveActivities(toSave);
+  }
+
+  const count = (status: ImportRowResult["status"]) => rows.filter((result) => result.status === status).length;
+  return {
+    rows,
+    accepted: count("accepted"),
+    rejected: count("rejected"),
+    duplicate: count("duplicate"),
+    committed: !request.dryRun && toSave.length > 0,
+  };
+}
+
+type UtilityField = "electricityUsage" | "naturalGasUsage";
+const UTILITY_FIELDS: UtilityField[] = ["electricityUsage", "naturalGasUsage"];
+
+// Usage recorded on a stored activity, treating zero as not entered
+const enteredValue = (value: number | null | undefined) => (value ? value : null);
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.001;
+
+// Green Button downloads cover at most a few years of usage
+export const MAX_GREEN_BUTTON_DAYS = 3 * 366;
+
+// Preview or apply a Green Button file: usage is spread over days and written
+// into each day's activity, creating activities for days with none. Values the
+// user already entered are kept unless the request asks to overwrite them.
+export async function importGreenButton(userId: string, request: GreenButtonImportRequest): Promise<GreenButtonReport> {
+  let usage: GreenButtonUsage;
+  try {
+    usage = parseGreenButton(request.xml);
+  } catch (error) {
+    throw invalidFile(["xml"], error instanceof Error ? error.message : "Could not read the file");
+  }
+
+  if (getUsageDayCount(usage) > MAX_GREEN_BUTTON_DAYS) {
+    throw invalidFile(["xml"], `Files are limited to ${MAX_GREEN_BUTTON_DAYS} days of usage`);
+  }
+
+  const days = spreadUsageByDay(usage);
+  if (days.length === 0) throw invalidFile(["xml"], "The file has no electricity or gas usage we can read");
+
+  const units = getUnitPreferences(await storage.getUser(userId));
+  const existing = await storage.getUserActivitiesByDateRange(userId, days[0].date, days[days.length - 1].date);
+  const byDate = new Map(existing.map((activity) => [activity.date, activity]));
+  const { latestDate } = getLoggableDateRange();
+
+  const report: GreenButtonDay[] = [];
+  const created: NewActivity[] = [];
+  const replaced: ActivityReplacement[] = [];
+
+  for (const day of days) {
+    const activity = byDate.get(day.date);
+    const updates: Partial<Record<UtilityField, number>> = {};
+    let overlap = false;
+
+    for (const field of UTILITY_FIELDS) {
+      const imported = day[field];
+      if (imported === null) continue;
+      const current = enteredValue(activity?.[field]);
+      if (current !== null && sameAmount(current, imported)) continue;
+      if (current !== null) {
+        overlap = true;
+        if (!request.overwrite) continue;
+      }
+      updates[field] = imported;
+    }
+
+    const status: GreenButtonDayStatus = day.date > latestDate
+      ? "future"
+      : !activity
+        ? "new"
+        : overlap
+          ? "overlap"
+          : Object.keys(updates).length > 0 ? "update" : "unchanged";
+
+    report.push({
+      date: day.date,
+      electricityUsage: day.electricityUsage,
+      naturalGasUsage: fromTherms(day.naturalGasUsage, units.gasUnit),
+      existingElectricityUsage: enteredValue(activity?.electricityUsage),
+      existingNaturalGasUsage: fromTherms(enteredValue(activity?.naturalGasUsage), units.gasUnit),
+      status,
+    });
+
+    if (status === "future" || Object.keys(updates).length === 0) continue;
+
+    // The activity helpers take payloads in the user's units
+    const payload = updates.naturalGasUsage === undefined
+      ? updates
+      : { ...updates, naturalGasUsage: fromTherms(updates.naturalGasUsage, units.gasUnit) };
+    if (activity) {
+      replaced.push({ activityId: activity.id, ...(await prepareActivityUpdate(activity, payload)) });
+    } else {
+      created.push(asDraft(await prepareActivity(userId, { date: day.date, ...payload })));
+    }
+  }
+
+  const committed = !request.dryRun && created.length + replaced.length > 0;
+  if (committed) {
+    await storage.saveActivities(created, replaced);
+    // New days are drafts; only days that were already logged count toward goals
+    await refreshGoalProgress(userId, replaced.map(({ activity }) => activity.date));
+  }
+
+  // A dry run reports how many days a real run would write
+  return {
+    days: report,
+    skippedReadings: usage.skippedReadings,
+    created: created.length,
+    updated: replaced.length,
+    committed,
+  };
+}
+
+// Largest number of tracks accepted in one file
+export const MAX_IMPORT_TRACKS = 500;
+
+// Preview or apply a GPX/GeoJSON file: each track becomes a transport leg on
+// the local day it started, in the mode inferred from its average speed unless
+// the request overrides it. Legs are appended to days that are already logged.
+export async function importTracks(userId: string, request: TrackImportRequest): Promise<TrackImportReport> {
+  let tracks: Track[];
+  try {
+    tracks = parseTrackFile(request.content);
+  } catch (error) {
+    throw invalidFile(["content"], error instanceof Error ? error.message : "Could not read the file");
+  }
+  if (tracks.length === 0) throw invalidFile(["content"], "The file has no tracks or routes");
+  if (tracks.length > MAX_IMPORT_TRACKS) {
+    throw invalidFile(["content"], `Files are limited to ${MAX_IMPORT_TRACKS} tracks`);
+  }
+
+  const units = getUnitPreferences(await storage.getUser(userId));
+  const { latestDate } = getLoggableDateRange();
+  const skipped = new Set(request.skip);
+  const rows: TrackImportRow[] = [];
+  const legsByDate = new Map<string, { mode: string; distance: number }[]>();
+
+  for (let index = 0; index < tracks.length; index++) {
+    const summary = summarizeTrack(tracks[index], request.timezoneOffset);
+    const mode = request.modes[String(index)] ?? summary.inferredMode;
+    const distance = fromMiles(summary.distance, units.distanceUnit);
+    const row: TrackImportRow = {
+      index,
+      name: summary.name,
+      date: summary.date,
+      distance,
+      durationSeconds: summary.durationSeconds,
+      averageSpeed: summary.averageSpeedMph === null ? null : fromMiles(summary.averageSpeedMph, units.distanceUnit),
+      inferredMode: summary.inferredMode,
+      mode,
+      status: "rejected",
+      errors: [],
+      totalEmissions: null,
+    };
+    rows.push(row);
+
+    if (tracks[index].points.length < 2) row.errors.push("The track has fewer than two points");
+    if (summary.invalidPoints > 0) row.errors.push("The track has points outside the valid latitude and longitude range");
+    if (summary.invalidTimes > 0) row.errors.push("The track has timestamps that are not valid dates");
+    else if (!summary.date) row.errors.push("The track has no timestamps, so its date is unknown");
+    if (summary.date && summary.date > latestDate) row.errors.push("Date cannot be in the future");
+    if (row.errors.length > 0 || !summary.date) continue;
+
+    if (skipped.has(index)) {
+      row.status = "skipped";
+      continue;
+    }
+
+    // The leg on its own, so each track shows what it adds to its day
+    const leg = { mode, distance: summary.distance };
+    const { emissions } = await calculateActivityEmissions({ userId, date: summary.date, trips: [leg] });
+    row.status = "ready";
+    row.totalEmissions = emissions.totalEmissions;
+
+    // The activity helpers take payloads in the user's units
+    const legs = legsByDate.get(summary.date) ?? [];
+    legs.push({ mode, distance });
+    legsByDate.set(summary.date, legs);
+  }
+
+  const dates = Array.from(legsByDate.keys()).sort();
+  const created: NewActivity[] = [];
+  const replaced: ActivityReplacement[] = [];
+
+  if (dates.length > 0) {
+    const existing = await storage.getUserActivitiesByDateRange(userId, dates[0], dates[dates.length - 1]);
+    const byDate = new Map(existing.map((activity) => [activity.date, activity]));
+    for (const date of dates) {
+      const trips = legsByDate.get(date)!;
+      const activity = byDate.get(date);
+      if (activity) {
+        replaced.push({ activityId: activity.id, ...(await prepareActivityMerge(activity, { trips })) });
+      } else {
+        created.push(asDraft(await prepareActivity(userId, { date, trips })));
+      }
+    }
+  }
+
+  const committed = !request.dryRun && created.length + replaced.length > 0;
+  if (committed) {
+    await storage.saveActivities(created, replaced);
+    await refreshGoalProgress(userId, replaced.map(({ activity }) => activity.date));
+  }
+
+  return { tracks: rows, created: created.length, updated: replaced.length, committed };
+}
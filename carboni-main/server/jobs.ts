@@ -0,0 +1,42 @@
+import { log } from "./vite";
+import { fillTemplateDrafts } from "./templates";
+import { expireGoals } from "./goals";
+
+// Background jobs run inside the server process. Set SCHEDULED_JOBS=off on
+// all but one instance when running several.
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<number>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const JOBS: ScheduledJob[] = [
+  { name: "template-drafts", intervalMs: HOUR_MS, run: () => fillTemplateDrafts() },
+  { name: "goal-expiry", intervalMs: HOUR_MS, run: () => expireGoals() },
+];
+
+// Run each job at startup and then on its interval. A run still going when
+// the next one is due is not overlapped.
+export function startScheduledJobs(): void {
+  if (process.env.SCHEDULED_JOBS === "off") return;
+
+  for (const job of JOBS) {
+    let running = false;
+    const runJob = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const count = await job.run();
+        if (count > 0) log(`${job.name}: ${count} updated`, "jobs");
+      } catch (error) {
+        console.error(`Error running scheduled job ${job.name}:`, error);
+      } finally {
+        running = false;
+      }
+    };
+    void runJob();
+    setInterval(runJob, job.intervalMs).unref();
+  }
+}
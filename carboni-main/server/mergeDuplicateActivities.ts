@@ -0,0 +1,139 @@
+// Data migration for the unique (user_id, date) index on activities, in two
+// runs around the schema push on databases created before the index existed:
+//
+//   1. `npm run db:merge-duplicates` moves every activity logged for a day
+//      that already has an older one into an `activity_duplicates` holding
+//      table, using plain SQL so it works on the original columns.
+//   2. `npm run db:push` then creates the new columns, tables and the index.
+//   3. `npm run db:merge-duplicates` again merges each held row into the day's
+//      remaining activity through the emissions engine and drops the table.
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+import { storage } from "./storage";
+import { prepareActivityMerge } from "./activities";
+import { activityFromCanonical, getUnitPreferences } from "@shared/units";
+
+const HOLDING_TABLE = "activity_duplicates";
+
+// Activity inputs a held row may carry, by column; columns added after the
+// database was created may be missing
+const INPUT_COLUMNS = {
+  transportType: "transport_type",
+  transportDistance: "transport_distance",
+  electricityUsage: "electricity_usage",
+  naturalGasUsage: "natural_gas_usage",
+  heatingOilUsage: "heating_oil_usage",
+  propaneUsage: "propane_usage",
+  woodUsage: "wood_usage",
+  districtHeatUsage: "district_heat_usage",
+  beefServings: "beef_servings",
+  chickenServings: "chicken_servings",
+  vegetableServings: "vegetable_servings",
+} as const;
+
+async function tableExists(name: string): Promise<boolean> {
+  const { rows } = await db.execute(sql`select to_regclass(${name}) is not null as "exists"`);
+  return Boolean(rows[0]?.exists);
+}
+
+// Move the newer activities of each duplicated day into the holding table.
+// Transport legs and meal items, where those tables exist already, are moved
+// to the kept activity straight away; a held row whose legs moved no longer
+// carries their summary transport columns.
+async function setAsideDuplicates(): Promise<number> {
+  const hasTrips = await tableExists("trips");
+  const hasMealItems = await tableExists("meal_items");
+
+  return await db.transaction(async (tx) => {
+    await tx.execute(sql`
+      create table ${sql.identifier(HOLDING_TABLE)} as
+      select a.*, k.keep_id
+      from activities a
+      join (
+        select user_id, date, min(id) as keep_id
+        from activities
+        group by user_id, date
+        having count(*) > 1
+      ) k on k.user_id = a.user_id and k.date = a.date
+      where a.id <> k.keep_id
+    `);
+
+    if (hasTrips) {
+      await tx.execute(sql`
+        update ${sql.identifier(HOLDING_TABLE)} d
+        set transport_type = null, transport_distance = null
+        where exists (select 1 from trips t where t.activity_id = d.id)
+      `);
+      await tx.execute(sql`
+        update trips t set activity_id = d.keep_id
+        from ${sql.identifier(HOLDING_TABLE)} d
+        where t.activity_id = d.id
+      `);
+    }
+    if (hasMealItems) {
+      await tx.execute(sql`
+        update meal_items m set activity_id = d.keep_id
+        from ${sql.identifier(HOLDING_TABLE)} d
+        where m.activity_id = d.id
+      `);
+    }
+
+    const { rowCount } = await tx.execute(sql`
+      delete from activities a
+      using ${sql.identifier(HOLDING_TABLE)} d
+      where a.id = d.id
+    `);
+    return rowCount ?? 0;
+  });
+}
+
+// Merge each held row into the activity kept for its day, like a second log
+// for that day, then drop the holding table. Rows are removed as they are
+// merged, so an interrupted run can be resumed.
+async function mergeHeldDuplicates(): Promise<number> {
+  const { rows } = await db.execute(sql`select * from ${sql.identifier(HOLDING_TABLE)} order by id`);
+
+  let merged = 0;
+  for (const row of rows) {
+    const keep = await storage.getActivity(Number(row.keep_id));
+    if (keep) {
+      const payload: Record<string, unknown> = {};
+      for (const [field, column] of Object.entries(INPUT_COLUMNS)) {
+        if (row[column] != null) payload[field] = row[column];
+      }
+
+      // Held rows are canonical; the merge takes the user's units
+      const units = getUnitPreferences(await storage.getUser(keep.userId));
+      const { activity, trips, mealItems } = await prepareActivityMerge(keep, activityFromCanonical(payload, units));
+      await storage.replaceActivity(keep.id, activity, trips, mealItems);
+      merged++;
+    }
+    await db.execute(sql`delete from ${sql.identifier(HOLDING_TABLE)} where id = ${row.id}`);
+  }
+
+  await db.execute(sql`drop table ${sql.identifier(HOLDING_TABLE)}`);
+  return merged;
+}
+
+async function mergeDuplicateActivities(): Promise<string> {
+  if (await tableExists(HOLDING_TABLE)) {
+    return `Merged ${await mergeHeldDuplicates()} duplicate activities`;
+  }
+
+  const moved = await setAsideDuplicates();
+  if (moved === 0) {
+    await db.execute(sql`drop table ${sql.identifier(HOLDING_TABLE)}`);
+    return "No duplicate activities found";
+  }
+  return `Set aside ${moved} duplicate activities. Run \`npm run db:push\`, then run this script again to merge them.`;
+}
+
+mergeDuplicateActivities()
+  .then((message) => {
+    console.log(message);
+  })
+  .catch((error) => {
+    console.error("Error merging duplicate activities:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
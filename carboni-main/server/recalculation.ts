@@ -0,0 +1,127 @@
+import { storage, type ActivityFilter } from "./storage";
+import { calculateActivityEmissions, clearFactorSetCache } from "./emissionFactors";
+import { refreshGoalProgress } from "./goals";
+import type { ActivityWithDetails, RecalculationRun } from "@shared/schema";
+
+export interface RecalculationOptions extends ActivityFilter {
+  triggeredBy: string;
+  dryRun?: boolean;
+}
+
+interface EmissionSnapshot {
+  transportEmissions: number | null;
+  energyEmissions: number | null;
+  foodEmissions: number | null;
+  totalEmissions: number;
+  transportFactorVersion: string | null;
+  energyFactorVersion: string | null;
+  foodFactorVersion: string | null;
+}
+
+export interface RecalculationChange {
+  activityId: number;
+  userId: string;
+  date: string;
+  before: EmissionSnapshot;
+  after: EmissionSnapshot;
+}
+
+export interface RecalculationResult {
+  dryRun: boolean;
+  activitiesScanned: number;
+  activitiesChanged: number;
+  changes: RecalculationChange[];
+  run?: RecalculationRun;
+}
+
+function snapshot(activity: EmissionSnapshot): EmissionSnapshot {
+  return {
+    transportEmissions: activity.transportEmissions,
+    energyEmissions: activity.energyEmissions,
+    foodEmissions: activity.foodEmissions,
+    totalEmissions: activity.totalEmissions,
+    transportFactorVersion: activity.transportFactorVersion,
+    energyFactorVersion: activity.energyFactorVersion,
+    foodFactorVersion: activity.foodFactorVersion,
+  };
+}
+
+function hasChanged(before: EmissionSnapshot, after: EmissionSnapshot): boolean {
+  return (Object.keys(before) as Array<keyof EmissionSnapshot>).some(
+    (key) => (before[key] ?? null) !== (after[key] ?? null),
+  );
+}
+
+async function recalculateActivity(activity: ActivityWithDetails) {
+  const { emissions, factorVersions } = await calculateActivityEmissions(activity);
+  const updates = { ...emissions, ...factorVersions };
+  const before = snapshot(activity);
+  const after = snapshot(updates);
+
+  if (!hasChanged(before, after)) return null;
+
+  const change: RecalculationChange = {
+    activityId: activity.id,
+    userId: activity.userId,
+    date: activity.date,
+    before,
+    after,
+  };
+  return { change, updates };
+}
+
+// Re-run the emissions engine over stored activities with the current factor
+// registry. Dashboard and leaderboard totals are summed from activity rows at
+// query time, so updating the rows updates those aggregates as well; goal
+// progress is refreshed for the users affected.
+export async function recalculateActivities(options: RecalculationOptions): Promise<RecalculationResult> {
+  const { triggeredBy, dryRun = false, ...filter } = options;
+
+  clearFactorSetCache();
+  const activities = await storage.getActivities(filter);
+
+  const recalculated = [];
+  for (const activity of activities) {
+    const result = await recalculateActivity(activity);
+    if (result) recalculated.push(result);
+  }
+  const changes = recalculated.map((result) => result.change);
+
+  if (dryRun) {
+    return {
+      dryRun,
+      activitiesScanned: activities.length,
+      activitiesChanged: changes.length,
+      changes,
+    };
+  }
+
+  const run = await storage.createRecalculationRun(
+    {
+      triggeredBy,
+      userId: filter.userId ?? null,
+      startDate: filter.startDate ?? null,
+      endDate: filter.endDate ?? null,
+      activitiesScanned: activities.length,
+      activitiesChanged: changes.length,
+      diff: changes,
+    },
+    recalculated.map(({ change, updates }) => ({ activityId: change.activityId, updates })),
+  );
+
+  const datesByUser = new Map<string, string[]>();
+  for (const change of changes) {
+    datesByUser.set(change.userId, [...(datesByUser.get(change.userId) ?? []), change.date]);
+  }
+  for (const userId of Array.from(datesByUser.keys())) {
+    await refreshGoalProgress(userId, datesByUser.get(userId));
+  }
+
+  return {
+    dryRun,
+    activitiesScanned: activities.length,
+    activitiesChanged: changes.length,
+    changes,
+    run,
+  };
+}
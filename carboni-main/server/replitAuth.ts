@@ -155,3 +155,18 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     return;
   }
 };
+
+// Admins are listed by user id in ADMIN_USER_IDS (comma separated)
+export const isAdmin: RequestHandler = (req, res, next) => {
+  const user = req.user as any;
+  const adminIds = (process.env.ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  if (!user?.claims?.sub || !adminIds.includes(user.claims.sub)) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+
+  next();
+};
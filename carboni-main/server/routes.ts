@@ -1,70 +1,48 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertActivitySchema, insertGoalSchema } from "@shared/schema";
+import { setupAuth, isAuthenticated, isAdmin } from "./replitAuth";
+import {
+  insertGoalSchema,
+  updateGoalSchema,
+  insertVehicleSchema,
+  insertActivityTemplateSchema,
+  updateActivityTemplateSchema,
+  applyActivityTemplateSchema,
+  updateProfileSchema,
+  exportQuerySchema,
+  activityReviewSchema,
+  activityImportSchema,
+  greenButtonImportSchema,
+  trackImportSchema,
+} from "@shared/schema";
+import { seedDefaultEmissionFactors, loadFactorSet, getUserFactorRegion } from "./emissionFactors";
+import {
+  prepareActivityUpdate,
+  logActivity,
+  isDuplicateActivityError,
+  parseActivityDate,
+  getLoggableDateRange,
+  getActivityHistory,
+} from "./activities";
+import { seedFoodCatalog } from "./foods";
+import { recalculateActivities } from "./recalculation";
+import { streamExport } from "./export";
+import { applyTemplate, templateFromCanonical, templatePayloadToCanonical } from "./templates";
+import { createGoal, evaluateGoal, refreshGoalProgress, validateGoalWindow, withGoalWindow } from "./goals";
+import { forecastGoal } from "./forecast";
+import { importActivities, importGreenButton, importTracks } from "./import";
+import { getUnitPreferences, activityFromCanonical } from "@shared/units";
 import { z } from "zod";
 
-// Carbon emission factors (EPA 2025 data)
-const EMISSION_FACTORS = {
-  transport: {
-    car_gasoline: 0.39, // kg CO2e per mile
-    car_electric: 0.13, // kg CO2e per mile (considering US grid average)
-    bus: 0.07, // kg CO2e per mile per passenger
-    train: 0.045, // kg CO2e per mile per passenger
-    bike: 0,
-    walking: 0,
-  },
-  energy: {
-    electricity: 0.37, // kg CO2e per kWh (US average)
-    naturalGas: 5.3, // kg CO2e per therm
-  },
-  food: {
-    beef: 30.4, // kg CO2e per kg (approximately 0.5kg per serving)
-    chicken: 4.2, // kg CO2e per kg (approximately 0.2kg per serving)
-    vegetables: 1.0, // kg CO2e per kg (approximately 0.15kg per serving)
-  },
-};
-
-function calculateEmissions(data: any) {
-  let transportEmissions = 0;
-  let energyEmissions = 0;
-  let foodEmissions = 0;
-
-  // Transport emissions
-  if (data.transportType && data.transportDistance) {
-    const factor = EMISSION_FACTORS.transport[data.transportType as keyof typeof EMISSION_FACTORS.transport];
-    transportEmissions = factor * data.transportDistance;
-  }
-
-  // Energy emissions
-  if (data.electricityUsage) {
-    energyEmissions += EMISSION_FACTORS.energy.electricity * data.electricityUsage;
-  }
-  if (data.naturalGasUsage) {
-    energyEmissions += EMISSION_FACTORS.energy.naturalGas * data.naturalGasUsage;
-  }
-
-  // Food emissions (serving sizes: beef ~0.5kg, chicken ~0.2kg, vegetables ~0.15kg)
-  if (data.beefServings) {
-    foodEmissions += EMISSION_FACTORS.food.beef * 0.5 * data.beefServings;
-  }
-  if (data.chickenServings) {
-    foodEmissions += EMISSION_FACTORS.food.chicken * 0.2 * data.chickenServings;
-  }
-  if (data.vegetableServings) {
-    foodEmissions += EMISSION_FACTORS.food.vegetables * 0.15 * data.vegetableServings;
-  }
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
 
-  const totalEmissions = transportEmissions + energyEmissions + foodEmissions;
-
-  return {
-    transportEmissions: Math.round(transportEmissions * 100) / 100,
-    energyEmissions: Math.round(energyEmissions * 100) / 100,
-    foodEmissions: Math.round(foodEmissions * 100) / 100,
-    totalEmissions: Math.round(totalEmissions * 100) / 100,
-  };
-}
+const recalculationRequestSchema = z.object({
+  userId: z.string().optional(),
+  startDate: isoDate.optional(),
+  endDate: isoDate.optional(),
+  dryRun: z.boolean().optional(),
+});
 
 function generatePersonalizedTips(emissionsByCategory: { transport: number; energy: number; food: number }) {
   const tips = [];
@@ -128,6 +106,8 @@ function generatePersonalizedTips(emissionsByCategory: { transport: number; ener
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
+  await seedDefaultEmissionFactors();
+  await seedFoodCatalog();
 
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
@@ -141,6 +121,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Profile preferences
+  app.patch('/api/auth/user', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = updateProfileSchema.parse(req.body);
+      const user = await storage.updateUser(userId, updates);
+      res.json(user);
+    } catch (error) {
+      console.error("Error updating user:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid profile data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update user" });
+      }
+    }
+  });
+
   // Dashboard data endpoint
   app.get("/api/dashboard", isAuthenticated, async (req: any, res) => {
     try {
@@ -150,7 +147,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const emissionsThisMonth = await storage.getEmissionsThisMonth(userId);
       const emissionsLastMonth = await storage.getEmissionsLastMonth(userId);
       const emissionsByCategory = await storage.getEmissionsByCategory(userId, 7); // Last 7 days
-      const recentActivities = await storage.getUserActivities(userId, 7);
+      const energyBySource = await storage.getEnergyEmissionsBySource(userId, 7);
+      // Drafts are left out of every dashboard figure, as they are of the totals
+      const recentActivities = await storage.getUserActivitiesByDateRange(userId, undefined, undefined, {
+        status: "confirmed",
+        limit: 7,
+      });
       
       // Calculate reduction percentage
       const reductionPercentage = emissionsLastMonth > 0 
@@ -160,12 +162,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get user rank
       const userRank = await storage.getUserRank(userId);
       
-      // Get goals
-      const goals = await storage.getUserGoals(userId);
+      // Get goals still in progress
+      const goals = (await storage.getUserGoals(userId)).filter((goal) => goal.status === "active");
       
       // Get achievements
       const achievements = await storage.getUserAchievements(userId);
       
+      // Drafts waiting in the review queue
+      const draftCount = await storage.getDraftCount(userId);
+      
       // Generate personalized tips
       const personalizedTips = generatePersonalizedTips(emissionsByCategory);
       
@@ -195,8 +200,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reductionPercentage,
         rank: userRank,
         emissionsByCategory,
+        energyBySource,
         goals,
         achievements: achievements.slice(0, 5), // Recent achievements
+        draftCount,
         personalizedTips,
         chartData,
       });
@@ -210,50 +217,387 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/activities", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const activityData = req.body;
-      
-      // Validate the activity data
-      const validatedData = insertActivitySchema.parse({
-        ...activityData,
-        userId,
-        date: activityData.date || new Date().toISOString().split('T')[0],
-      });
-      
-      // Calculate emissions
-      const emissions = calculateEmissions(validatedData);
-      
-      // Create activity with calculated emissions
-      const activity = await storage.createActivity({
-        ...validatedData,
-        ...emissions,
-      });
+      const { activity, emissions, merged } = await logActivity(userId, req.body);
+      await refreshGoalProgress(userId, [activity.date]);
+      const units = getUnitPreferences(await storage.getUser(userId));
       
       res.json({
-        activity,
+        activity: activityFromCanonical(activity, units),
         emissions,
-        message: "Activity logged successfully",
+        merged,
+        message: merged ? "Activity merged into this day's log" : "Activity logged successfully",
       });
     } catch (error) {
       console.error("Error logging activity:", error);
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid activity data", errors: error.errors });
+      } else if (isDuplicateActivityError(error)) {
+        res.status(409).json({ message: "An activity was logged for this date at the same time. Please try again." });
       } else {
         res.status(500).json({ message: "Failed to log activity" });
       }
     }
   });
 
-  // Get user activities
+  // Page through user activities with optional filters and sort order
   app.get("/api/activities", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const limit = parseInt(req.query.limit as string) || 30;
-      
-      const activities = await storage.getUserActivities(userId, limit);
-      res.json(activities);
+      const { activities, nextCursor } = await getActivityHistory(userId, req.query);
+      const units = getUnitPreferences(await storage.getUser(userId));
+      res.json({
+        activities: activities.map((activity) => activityFromCanonical(activity, units)),
+        nextCursor,
+      });
     } catch (error) {
       console.error("Error fetching activities:", error);
-      res.status(500).json({ message: "Failed to fetch activities" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid activity filters", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch activities" });
+      }
+    }
+  });
+
+  // Import activities from a CSV. A dry run returns the per-row report
+  // without saving; otherwise accepted rows are saved together.
+  app.post("/api/import", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const request = activityImportSchema.parse(req.body);
+      res.json(await importActivities(userId, request));
+    } catch (error) {
+      console.error("Error importing activities:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid import", errors: error.errors });
+      } else if (isDuplicateActivityError(error)) {
+        res.status(409).json({ message: "Some of these days were logged while importing. Preview the file again." });
+      } else {
+        res.status(500).json({ message: "Failed to import activities" });
+      }
+    }
+  });
+
+  // Import utility usage from a Green Button XML download
+  app.post("/api/import/green-button", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const request = greenButtonImportSchema.parse(req.body);
+      res.json(await importGreenButton(userId, request));
+    } catch (error) {
+      console.error("Error importing Green Button data:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid Green Button file", errors: error.errors });
+      } else if (isDuplicateActivityError(error)) {
+        res.status(409).json({ message: "Some of these days were logged while importing. Preview the file again." });
+      } else {
+        res.status(500).json({ message: "Failed to import utility usage" });
+      }
+    }
+  });
+
+  // Trips recorded as GPX or GeoJSON tracks; a dry run previews the legs
+  app.post("/api/import/tracks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const request = trackImportSchema.parse(req.body);
+      res.json(await importTracks(userId, request));
+    } catch (error) {
+      console.error("Error importing tracks:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid track file", errors: error.errors });
+      } else if (isDuplicateActivityError(error)) {
+        res.status(409).json({ message: "Some of these days were logged while importing. Preview the file again." });
+      } else {
+        res.status(500).json({ message: "Failed to import trips" });
+      }
+    }
+  });
+
+  // Download the user's history as CSV or JSON
+  app.get("/api/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const query = exportQuerySchema.parse(req.query);
+      await streamExport(res, userId, query);
+    } catch (error) {
+      console.error("Error exporting data:", error);
+      if (res.headersSent) {
+        res.destroy();
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid export options", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to export data" });
+      }
+    }
+  });
+
+  // Dates the activity form may log for
+  app.get("/api/activities/date-range", isAuthenticated, async (_req, res) => {
+    res.json(getLoggableDateRange());
+  });
+
+  // Edit a logged activity; emissions are recomputed from the merged inputs
+  app.patch("/api/activities/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const existing = await storage.getActivity(parseInt(req.params.id));
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      // Moving a day onto a date that already has a record is left to the client
+      if (req.body.date && req.body.date !== existing.date) {
+        const conflicting = await storage.getActivityByDate(userId, parseActivityDate(req.body.date));
+        if (conflicting) {
+          return res.status(409).json({
+            message: "An activity already exists for this date",
+            activityId: conflicting.id,
+          });
+        }
+      }
+
+      const { activity: activityData, trips, mealItems, emissions } = await prepareActivityUpdate(existing, req.body);
+      const activity = await storage.replaceActivity(existing.id, activityData, trips, mealItems);
+      await refreshGoalProgress(userId, [existing.date, activity.date]);
+      const units = getUnitPreferences(await storage.getUser(userId));
+
+      res.json({
+        activity: activityFromCanonical(activity, units),
+        emissions,
+        message: "Activity updated successfully",
+      });
+    } catch (error) {
+      console.error("Error updating activity:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid activity data", errors: error.errors });
+      } else if (isDuplicateActivityError(error)) {
+        res.status(409).json({ message: "An activity already exists for this date" });
+      } else {
+        res.status(500).json({ message: "Failed to update activity" });
+      }
+    }
+  });
+
+  app.delete("/api/activities/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const existing = await storage.getActivity(parseInt(req.params.id));
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      await storage.deleteActivity(existing.id);
+      await refreshGoalProgress(userId, [existing.date]);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting activity:", error);
+      res.status(500).json({ message: "Failed to delete activity" });
+    }
+  });
+
+  // Confirm or discard drafts from the review queue in bulk
+  app.post("/api/activities/review", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { ids, action } = activityReviewSchema.parse(req.body);
+      const updated = action === "confirm"
+        ? await storage.confirmDrafts(userId, ids)
+        : await storage.deleteDrafts(userId, ids);
+      // Discarded drafts never counted toward goals
+      if (action === "confirm" && updated > 0) await refreshGoalProgress(userId);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error reviewing activities:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid review request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to review activities" });
+      }
+    }
+  });
+
+  // Emission factors in effect on a date for the user's grid region, used by
+  // the activity form preview
+  app.get("/api/emission-factors", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const date = (req.query.date as string) || new Date().toISOString().split('T')[0];
+      const region = await getUserFactorRegion(userId);
+      const factorSet = await loadFactorSet(date, region);
+      res.json(factorSet);
+    } catch (error) {
+      console.error("Error fetching emission factors:", error);
+      res.status(500).json({ message: "Failed to fetch emission factors" });
+    }
+  });
+
+  // Food catalog with the per-kg factors in effect for the user's region
+  app.get("/api/foods", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const date = new Date().toISOString().split('T')[0];
+      const [foods, factorSet] = await Promise.all([
+        storage.getFoodItems(),
+        loadFactorSet(date, await getUserFactorRegion(userId)),
+      ]);
+      res.json(foods.map((food) => ({ ...food, kgCo2ePerKg: factorSet.factors.food[food.key] ?? null })));
+    } catch (error) {
+      console.error("Error fetching food catalog:", error);
+      res.status(500).json({ message: "Failed to fetch food catalog" });
+    }
+  });
+
+  // Vehicle endpoints
+  app.get("/api/vehicles", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const vehicles = await storage.getUserVehicles(userId);
+      res.json(vehicles);
+    } catch (error) {
+      console.error("Error fetching vehicles:", error);
+      res.status(500).json({ message: "Failed to fetch vehicles" });
+    }
+  });
+
+  app.post("/api/vehicles", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertVehicleSchema.parse({
+        ...req.body,
+        userId,
+      });
+
+      const vehicle = await storage.createVehicle(validatedData);
+      res.json(vehicle);
+    } catch (error) {
+      console.error("Error creating vehicle:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid vehicle data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create vehicle" });
+      }
+    }
+  });
+
+  app.delete("/api/vehicles/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteVehicle(parseInt(req.params.id), userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting vehicle:", error);
+      res.status(500).json({ message: "Failed to delete vehicle" });
+    }
+  });
+
+  // Activity templates, with payloads in the user's units
+  app.get("/api/activity-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const templates = await storage.getUserActivityTemplates(userId);
+      res.json(templates.map((template) => templateFromCanonical(template, user)));
+    } catch (error) {
+      console.error("Error fetching activity templates:", error);
+      res.status(500).json({ message: "Failed to fetch activity templates" });
+    }
+  });
+
+  app.post("/api/activity-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const validatedData = insertActivityTemplateSchema.parse({
+        ...req.body,
+        userId,
+      });
+
+      const template = await storage.createActivityTemplate({
+        ...validatedData,
+        payload: templatePayloadToCanonical(validatedData.payload, user),
+      });
+      res.json(templateFromCanonical(template, user));
+    } catch (error) {
+      console.error("Error creating activity template:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid template data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create activity template" });
+      }
+    }
+  });
+
+  app.patch("/api/activity-templates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const { payload, ...updates } = updateActivityTemplateSchema.parse(req.body);
+
+      const template = await storage.updateActivityTemplate(parseInt(req.params.id), userId, {
+        ...updates,
+        ...(payload && { payload: templatePayloadToCanonical(payload, user) }),
+      });
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json(templateFromCanonical(template, user));
+    } catch (error) {
+      console.error("Error updating activity template:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid template data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update activity template" });
+      }
+    }
+  });
+
+  app.delete("/api/activity-templates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteActivityTemplate(parseInt(req.params.id), userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting activity template:", error);
+      res.status(500).json({ message: "Failed to delete activity template" });
+    }
+  });
+
+  // Log a template's inputs for a day (today by default), merging into any
+  // activity already logged for it
+  app.post("/api/activity-templates/:id/apply", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { date } = applyActivityTemplateSchema.parse(req.body ?? {});
+      const template = await storage.getActivityTemplate(parseInt(req.params.id), userId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const { activity, emissions, merged } = await applyTemplate(template, date);
+      await refreshGoalProgress(userId, [activity.date]);
+      const units = getUnitPreferences(await storage.getUser(userId));
+      res.json({
+        activity: activityFromCanonical(activity, units),
+        emissions,
+        merged,
+        message: merged ? "Template added to this day's log" : "Template logged successfully",
+      });
+    } catch (error) {
+      console.error("Error applying activity template:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Template could not be applied", errors: error.errors });
+      } else if (isDuplicateActivityError(error)) {
+        res.status(409).json({ message: "An activity was logged for this date at the same time. Please try again." });
+      } else {
+        res.status(500).json({ message: "Failed to apply activity template" });
+      }
     }
   });
 
@@ -275,12 +619,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.claims.sub;
       const goalData = req.body;
       
-      const validatedData = insertGoalSchema.parse({
+      const validatedData = withGoalWindow(insertGoalSchema.parse({
         ...goalData,
         userId,
-      });
+      }));
+      validateGoalWindow(validatedData);
       
-      const goal = await storage.createGoal(validatedData);
+      const goal = await createGoal(validatedData);
       res.json(goal);
     } catch (error) {
       console.error("Error creating goal:", error);
@@ -303,6 +648,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Projected end-of-window value with an 80% band and the daily cut still
+  // needed to meet the target
+  app.get("/api/goals/:id/forecast", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const goal = await storage.getGoal(parseInt(req.params.id), userId);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      res.json(await forecastGoal(goal));
+    } catch (error) {
+      console.error("Error forecasting goal:", error);
+      res.status(500).json({ message: "Failed to forecast goal" });
+    }
+  });
+
+  // Edit a goal or move it between active, paused and archived; progress is
+  // re-evaluated for the new target and window
+  app.patch("/api/goals/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const existing = await storage.getGoal(parseInt(req.params.id), userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      const updates = updateGoalSchema.parse(req.body);
+      const merged = withGoalWindow({ ...existing, ...updates });
+      validateGoalWindow(merged);
+      // Making a goal recurring starts a series with it
+      const seriesId = merged.recurring ? merged.seriesId ?? existing.id : merged.seriesId;
+
+      const goal = await storage.updateGoal(existing.id, {
+        ...updates,
+        endDate: merged.endDate,
+        seriesId,
+        ...(await evaluateGoal({ ...merged, seriesId })),
+      });
+      res.json(goal);
+    } catch (error) {
+      console.error("Error updating goal:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid goal data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update goal" });
+      }
+    }
+  });
+
+  app.delete("/api/goals/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteGoal(parseInt(req.params.id), userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting goal:", error);
+      res.status(500).json({ message: "Failed to delete goal" });
+    }
+  });
+
+  // Admin: recalculate stored emissions with the current factor registry
+  app.post("/api/admin/recalculations", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const options = recalculationRequestSchema.parse(req.body);
+      const result = await recalculateActivities({
+        ...options,
+        triggeredBy: req.user.claims.sub,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error recalculating activities:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid recalculation request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to recalculate activities" });
+      }
+    }
+  });
+
+  app.get("/api/admin/recalculations", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const runs = await storage.getRecalculationRuns(limit);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching recalculation runs:", error);
+      res.status(500).json({ message: "Failed to fetch recalculation runs" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -3,27 +3,206 @@ import {
   activities,
   goals,
   achievements,
+  emissionFactors,
+  recalculationRuns,
+  trips,
+  vehicles,
+  activityTemplates,
+  mealItems,
+  foodItems,
   type User,
   type UpsertUser,
   type Activity,
+  type ActivityCategory,
+  type ActivitySort,
+  type ActivityStatus,
   type InsertActivity,
+  type ActivityWithDetails,
+  type InsertTrip,
+  type InsertMealItem,
+  type FoodItem,
+  type InsertFoodItem,
+  type Vehicle,
+  type InsertVehicle,
+  type ActivityTemplate,
+  type InsertActivityTemplate,
   type Goal,
   type InsertGoal,
   type Achievement,
   type InsertAchievement,
+  type EmissionFactor,
+  type InsertEmissionFactor,
+  type RecalculationRun,
+  type InsertRecalculationRun,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, sql, and, gte, lte, count } from "drizzle-orm";
+import { eq, desc, asc, sql, and, gt, gte, lt, lte, count, or, isNull, inArray, notExists, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { calculateEnergyBreakdown, ENERGY_SOURCES, type EnergyBreakdown } from "@shared/emissions";
+
+// Activity as persisted, with the engine output and the factor versions used
+export type CalculatedActivity = InsertActivity & {
+  transportEmissions?: number;
+  energyEmissions?: number;
+  energyBreakdown?: EnergyBreakdown;
+  foodEmissions?: number;
+  totalEmissions: number;
+  transportFactorVersion?: string;
+  energyFactorVersion?: string;
+  foodFactorVersion?: string;
+};
+
+export interface ActivityFilter {
+  userId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Position in an activity history listing: the sort value and id of the last
+// row of the previous page
+export interface ActivityCursor {
+  value: string | number;
+  id: number;
+}
+
+// Filters, order and page for browsing a user's activity history
+export interface ActivityHistoryOptions {
+  category?: ActivityCategory;
+  status?: ActivityStatus;
+  transportType?: string;
+  minEmissions?: number;
+  maxEmissions?: number;
+  sort?: ActivitySort;
+  after?: ActivityCursor;
+  limit?: number;
+}
+
+// An activity to insert together with its transport legs and meal items
+export interface NewActivity {
+  activity: CalculatedActivity;
+  trips: InsertTrip[];
+  mealItems: InsertMealItem[];
+}
+
+// New contents for a stored activity, replacing its legs and meal items
+export interface ActivityReplacement extends NewActivity {
+  activityId: number;
+}
+
+// Recalculated emissions and factor versions for a stored activity
+export interface ActivityEmissionUpdate {
+  activityId: number;
+  updates: Partial<CalculatedActivity>;
+}
+
+// Confirmed emissions over a date range (kg CO2e) and how many days were logged
+export interface EmissionsSummary {
+  transport: number;
+  energy: number;
+  food: number;
+  total: number;
+  days: number;
+}
+
+// Confirmed emissions logged for one day (kg CO2e)
+export interface DailyEmissions {
+  date: string;
+  transport: number;
+  energy: number;
+  food: number;
+  total: number;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Drafts were filled in for the user (by a template or an import) and don't
+// count toward totals and rankings until the user confirms them
+const isConfirmed = () => eq(activities.status, "confirmed");
+
+async function insertActivity(tx: Transaction, { activity, trips: activityTrips, mealItems: activityMealItems }: NewActivity) {
+  const [newActivity] = await tx
+    .insert(activities)
+    .values(activity)
+    .returning();
+
+  const newTrips = activityTrips.length > 0
+    ? await tx
+        .insert(trips)
+        .values(activityTrips.map((trip) => ({ ...trip, activityId: newActivity.id })))
+        .returning()
+    : [];
+
+  const newMealItems = activityMealItems.length > 0
+    ? await tx
+        .insert(mealItems)
+        .values(activityMealItems.map((item) => ({ ...item, activityId: newActivity.id })))
+        .returning()
+    : [];
+
+  return { ...newActivity, trips: newTrips, mealItems: newMealItems };
+}
+
+async function replaceActivityRows(
+  tx: Transaction,
+  activityId: number,
+  { activity, trips: activityTrips, mealItems: activityMealItems }: NewActivity,
+) {
+  const [updatedActivity] = await tx
+    .update(activities)
+    .set(activity)
+    .where(eq(activities.id, activityId))
+    .returning();
+
+  await tx.delete(trips).where(eq(trips.activityId, activityId));
+  await tx.delete(mealItems).where(eq(mealItems.activityId, activityId));
+
+  const newTrips = activityTrips.length > 0
+    ? await tx
+        .insert(trips)
+        .values(activityTrips.map((trip) => ({ ...trip, activityId })))
+        .returning()
+    : [];
+
+  const newMealItems = activityMealItems.length > 0
+    ? await tx
+        .insert(mealItems)
+        .values(activityMealItems.map((item) => ({ ...item, activityId })))
+        .returning()
+    : [];
+
+  return { ...updatedActivity, trips: newTrips, mealItems: newMealItems };
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<UpsertUser>): Promise<User>;
   
   // Activity operations
-  createActivity(activity: InsertActivity & { transportEmissions?: number; energyEmissions?: number; foodEmissions?: number; totalEmissions: number }): Promise<Activity>;
-  getUserActivities(userId: string, limit?: number): Promise<Activity[]>;
-  getUserActivitiesByDateRange(userId: string, startDate: string, endDate: string): Promise<Activity[]>;
+  createActivity(activity: CalculatedActivity, trips?: InsertTrip[], mealItems?: InsertMealItem[]): Promise<ActivityWithDetails>;
+  saveActivities(created: NewActivity[], replaced?: ActivityReplacement[]): Promise<ActivityWithDetails[]>;
+  getUserActivities(userId: string, limit?: number): Promise<ActivityWithDetails[]>;
+  getUserActivitiesByDateRange(
+    userId: string,
+    startDate?: string,
+    endDate?: string,
+    options?: ActivityHistoryOptions,
+  ): Promise<ActivityWithDetails[]>;
+  getActivities(filter: ActivityFilter): Promise<ActivityWithDetails[]>;
+  getActivity(activityId: number): Promise<ActivityWithDetails | undefined>;
+  getActivityByDate(userId: string, date: string): Promise<ActivityWithDetails | undefined>;
+  updateActivity(activityId: number, updates: Partial<CalculatedActivity>): Promise<Activity>;
+  replaceActivity(
+    activityId: number,
+    activity: CalculatedActivity,
+    trips: InsertTrip[],
+    mealItems: InsertMealItem[],
+  ): Promise<ActivityWithDetails>;
+  deleteActivity(activityId: number): Promise<void>;
+  getDraftCount(userId: string): Promise<number>;
+  confirmDrafts(userId: string, activityIds: number[]): Promise<number>;
+  deleteDrafts(userId: string, activityIds: number[]): Promise<number>;
   getTotalEmissions(userId: string): Promise<number>;
   getEmissionsThisMonth(userId: string): Promise<number>;
   getEmissionsLastMonth(userId: string): Promise<number>;
@@ -32,11 +211,48 @@ export interface IStorage {
     energy: number;
     food: number;
   }>;
+  getEnergyEmissionsBySource(userId: string, days?: number): Promise<EnergyBreakdown>;
+  getEmissionsSummary(userId: string, startDate: string, endDate: string): Promise<EmissionsSummary>;
+  getDailyEmissions(userId: string, startDate: string, endDate: string): Promise<DailyEmissions[]>;
+  
+  // Food catalog operations
+  getFoodItems(): Promise<FoodItem[]>;
+  createFoodItems(items: InsertFoodItem[]): Promise<FoodItem[]>;
+  
+  // Vehicle operations
+  getUserVehicles(userId: string): Promise<Vehicle[]>;
+  createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
+  deleteVehicle(vehicleId: number, userId: string): Promise<boolean>;
+  
+  // Activity template operations
+  getUserActivityTemplates(userId: string): Promise<ActivityTemplate[]>;
+  getActivityTemplate(templateId: number, userId: string): Promise<ActivityTemplate | undefined>;
+  getAutoFillActivityTemplates(): Promise<ActivityTemplate[]>;
+  createActivityTemplate(template: InsertActivityTemplate): Promise<ActivityTemplate>;
+  updateActivityTemplate(
+    templateId: number,
+    userId: string,
+    updates: Partial<InsertActivityTemplate> & { lastFilledDate?: string },
+  ): Promise<ActivityTemplate | undefined>;
+  deleteActivityTemplate(templateId: number, userId: string): Promise<boolean>;
   
   // Goal operations
-  createGoal(goal: InsertGoal): Promise<Goal>;
+  createGoal(goal: InsertGoal & { seriesId?: number | null }): Promise<Goal>;
   getUserGoals(userId: string): Promise<Goal[]>;
+  getGoal(goalId: number, userId: string): Promise<Goal | undefined>;
+  getGoalsEndedBefore(date: string): Promise<Goal[]>;
+  getGoalsToRollOver(date: string): Promise<Goal[]>;
   updateGoal(goalId: number, updates: Partial<Goal>): Promise<Goal>;
+  deleteGoal(goalId: number, userId: string): Promise<boolean>;
+  
+  // Emission factor operations
+  getEmissionFactorsAsOf(date: string): Promise<EmissionFactor[]>;
+  getEmissionFactorsByVersions(versions: string[]): Promise<EmissionFactor[]>;
+  createEmissionFactors(factors: InsertEmissionFactor[]): Promise<EmissionFactor[]>;
+  
+  // Recalculation operations
+  createRecalculationRun(run: InsertRecalculationRun, updates?: ActivityEmissionUpdate[]): Promise<RecalculationRun>;
+  getRecalculationRuns(limit?: number): Promise<RecalculationRun[]>;
   
   // Achievement operations
   createAchievement(achievement: InsertAchievement): Promise<Achievement>;
@@ -51,6 +267,22 @@ export interface IStorage {
   getUserRank(userId: string): Promise<number>;
 }
 
+// Per-source energy emissions of a stored activity. Activities logged before
+// the breakdown was stored split their energy total in proportion to the
+// bundled factors.
+function getStoredEnergyBreakdown(activity: Activity): EnergyBreakdown {
+  if (activity.energyBreakdown) return activity.energyBreakdown;
+
+  const estimate = calculateEnergyBreakdown(activity);
+  const estimatedTotal = ENERGY_SOURCES.reduce((total, source) => total + (estimate[source] ?? 0), 0);
+  if (!activity.energyEmissions || estimatedTotal === 0) return {};
+
+  const scale = activity.energyEmissions / estimatedTotal;
+  return Object.fromEntries(
+    Object.entries(estimate).map(([source, value]) => [source, value * scale]),
+  );
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -73,36 +305,215 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  // Activity operations
-  async createActivity(activity: InsertActivity & { transportEmissions?: number; energyEmissions?: number; foodEmissions?: number; totalEmissions: number }): Promise<Activity> {
-    const [newActivity] = await db
-      .insert(activities)
-      .values(activity)
+  async updateUser(id: string, updates: Partial<UpsertUser>): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, id))
       .returning();
-    return newActivity;
+    return user;
   }
 
-  async getUserActivities(userId: string, limit: number = 30): Promise<Activity[]> {
-    return await db
+  // Activity operations
+  async createActivity(
+    activity: CalculatedActivity,
+    activityTrips: InsertTrip[] = [],
+    activityMealItems: InsertMealItem[] = [],
+  ): Promise<ActivityWithDetails> {
+    return await db.transaction(async (tx) =>
+      insertActivity(tx, { activity, trips: activityTrips, mealItems: activityMealItems }),
+    );
+  }
+
+  // All or nothing: a failure on any activity rolls back the whole batch
+  async saveActivities(
+    created: NewActivity[],
+    replaced: ActivityReplacement[] = [],
+  ): Promise<ActivityWithDetails[]> {
+    return await db.transaction(async (tx) => {
+      const saved: ActivityWithDetails[] = [];
+      for (const entry of created) {
+        saved.push(await insertActivity(tx, entry));
+      }
+      for (const { activityId, ...entry } of replaced) {
+        saved.push(await replaceActivityRows(tx, activityId, entry));
+      }
+      return saved;
+    });
+  }
+
+  // Load the transport legs and meal items for a set of activities
+  private async withDetails(rows: Activity[]): Promise<ActivityWithDetails[]> {
+    if (rows.length === 0) return [];
+
+    const activityIds = rows.map((row) => row.id);
+    const activityTrips = await db
+      .select()
+      .from(trips)
+      .where(inArray(trips.activityId, activityIds))
+      .orderBy(trips.id);
+    const activityMealItems = await db
+      .select()
+      .from(mealItems)
+      .where(inArray(mealItems.activityId, activityIds))
+      .orderBy(mealItems.id);
+
+    return rows.map((row) => ({
+      ...row,
+      trips: activityTrips.filter((trip) => trip.activityId === row.id),
+      mealItems: activityMealItems.filter((item) => item.activityId === row.id),
+    }));
+  }
+
+  async getUserActivities(userId: string, limit: number = 30): Promise<ActivityWithDetails[]> {
+    const rows = await db
       .select()
       .from(activities)
       .where(eq(activities.userId, userId))
       .orderBy(desc(activities.date))
       .limit(limit);
+    return await this.withDetails(rows);
   }
 
-  async getUserActivitiesByDateRange(userId: string, startDate: string, endDate: string): Promise<Activity[]> {
-    return await db
+  // Keyset-paginated: pass the last row of a page as `after` to get the next.
+  // A transport type matches the day's summary type or any of its legs.
+  async getUserActivitiesByDateRange(
+    userId: string,
+    startDate?: string,
+    endDate?: string,
+    options: ActivityHistoryOptions = {},
+  ): Promise<ActivityWithDetails[]> {
+    const { category, status, transportType, minEmissions, maxEmissions, sort = "date_desc", after, limit } = options;
+    const conditions: (SQL | undefined)[] = [eq(activities.userId, userId)];
+    if (startDate) conditions.push(gte(activities.date, startDate));
+    if (endDate) conditions.push(lte(activities.date, endDate));
+    if (category === "transport") conditions.push(gt(activities.transportEmissions, 0));
+    if (category === "energy") conditions.push(gt(activities.energyEmissions, 0));
+    if (category === "food") conditions.push(gt(activities.foodEmissions, 0));
+    if (status) conditions.push(eq(activities.status, status));
+    if (transportType) {
+      conditions.push(
+        or(
+          eq(activities.transportType, transportType),
+          inArray(
+            activities.id,
+            db.select({ activityId: trips.activityId }).from(trips).where(eq(trips.mode, transportType)),
+          ),
+        ),
+      );
+    }
+    if (minEmissions !== undefined) conditions.push(gte(activities.totalEmissions, minEmissions));
+    if (maxEmissions !== undefined) conditions.push(lte(activities.totalEmissions, maxEmissions));
+
+    const sortColumn = sort.startsWith("emissions") ? activities.totalEmissions : activities.date;
+    const descending = sort.endsWith("desc");
+    if (after) {
+      const beyond = descending ? lt : gt;
+      conditions.push(
+        or(
+          beyond(sortColumn, after.value),
+          and(eq(sortColumn, after.value), beyond(activities.id, after.id)),
+        ),
+      );
+    }
+
+    const direction = descending ? desc : asc;
+    const query = db
+      .select()
+      .from(activities)
+      .where(and(...conditions))
+      .orderBy(direction(sortColumn), direction(activities.id));
+    const rows = limit ? await query.limit(limit) : await query;
+    return await this.withDetails(rows);
+  }
+
+  async getActivities(filter: ActivityFilter): Promise<ActivityWithDetails[]> {
+    const conditions = [];
+    if (filter.userId) conditions.push(eq(activities.userId, filter.userId));
+    if (filter.startDate) conditions.push(gte(activities.date, filter.startDate));
+    if (filter.endDate) conditions.push(lte(activities.date, filter.endDate));
+
+    const rows = await db
+      .select()
+      .from(activities)
+      .where(and(...conditions))
+      .orderBy(desc(activities.date));
+    return await this.withDetails(rows);
+  }
+
+  async getActivity(activityId: number): Promise<ActivityWithDetails | undefined> {
+    const rows = await db
       .select()
       .from(activities)
+      .where(eq(activities.id, activityId));
+    const [activity] = await this.withDetails(rows);
+    return activity;
+  }
+
+  async getActivityByDate(userId: string, date: string): Promise<ActivityWithDetails | undefined> {
+    const rows = await db
+      .select()
+      .from(activities)
+      .where(and(eq(activities.userId, userId), eq(activities.date, date)));
+    const [activity] = await this.withDetails(rows);
+    return activity;
+  }
+
+  async updateActivity(activityId: number, updates: Partial<CalculatedActivity>): Promise<Activity> {
+    const [updatedActivity] = await db
+      .update(activities)
+      .set(updates)
+      .where(eq(activities.id, activityId))
+      .returning();
+    return updatedActivity;
+  }
+
+  // Overwrite an activity's inputs and emissions, replacing its transport legs
+  // and meal items
+  async replaceActivity(
+    activityId: number,
+    activity: CalculatedActivity,
+    activityTrips: InsertTrip[],
+    activityMealItems: InsertMealItem[],
+  ): Promise<ActivityWithDetails> {
+    return await db.transaction(async (tx) =>
+      replaceActivityRows(tx, activityId, { activity, trips: activityTrips, mealItems: activityMealItems }),
+    );
+  }
+
+  // Transport legs and meal items are removed by cascade
+  async deleteActivity(activityId: number): Promise<void> {
+    await db.delete(activities).where(eq(activities.id, activityId));
+  }
+
+  async getDraftCount(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(activities)
+      .where(and(eq(activities.userId, userId), eq(activities.status, "draft")));
+    return result?.count ?? 0;
+  }
+
+  // Bulk review: ids that aren't the user's drafts are ignored
+  async confirmDrafts(userId: string, activityIds: number[]): Promise<number> {
+    const confirmed = await db
+      .update(activities)
+      .set({ status: "confirmed" })
       .where(
-        and(
-          eq(activities.userId, userId),
-          gte(activities.date, startDate),
-          lte(activities.date, endDate)
-        )
+        and(eq(activities.userId, userId), eq(activities.status, "draft"), inArray(activities.id, activityIds)),
       )
-      .orderBy(desc(activities.date));
+      .returning({ id: activities.id });
+    return confirmed.length;
+  }
+
+  async deleteDrafts(userId: string, activityIds: number[]): Promise<number> {
+    const deleted = await db
+      .delete(activities)
+      .where(
+        and(eq(activities.userId, userId), eq(activities.status, "draft"), inArray(activities.id, activityIds)),
+      )
+      .returning({ id: activities.id });
+    return deleted.length;
   }
 
   async getTotalEmissions(userId: string): Promise<number> {
@@ -125,6 +536,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(activities.userId, userId),
+          isConfirmed(),
           gte(activities.date, startOfMonth.toISOString().split('T')[0]),
           lte(activities.date, endOfMonth.toISOString().split('T')[0])
         )
@@ -144,6 +556,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(activities.userId, userId),
+          isConfirmed(),
           gte(activities.date, startOfLastMonth.toISOString().split('T')[0]),
           lte(activities.date, endOfLastMonth.toISOString().split('T')[0])
         )
@@ -170,6 +583,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(activities.userId, userId),
+          isConfirmed(),
           gte(activities.date, cutoffDate.toISOString().split('T')[0])
         )
       );
@@ -181,8 +595,188 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  async getEmissionsSummary(userId: string, startDate: string, endDate: string): Promise<EmissionsSummary> {
+    const [result] = await db
+      .select({
+        transport: sql<number>`sum(${activities.transportEmissions})`,
+        energy: sql<number>`sum(${activities.energyEmissions})`,
+        food: sql<number>`sum(${activities.foodEmissions})`,
+        total: sql<number>`sum(${activities.totalEmissions})`,
+        days: count(),
+      })
+      .from(activities)
+      .where(
+        and(
+          eq(activities.userId, userId),
+          isConfirmed(),
+          gte(activities.date, startDate),
+          lte(activities.date, endDate),
+        ),
+      );
+
+    return {
+      transport: result?.transport || 0,
+      energy: result?.energy || 0,
+      food: result?.food || 0,
+      total: result?.total || 0,
+      days: result?.days ?? 0,
+    };
+  }
+
+  async getDailyEmissions(userId: string, startDate: string, endDate: string): Promise<DailyEmissions[]> {
+    const rows = await db
+      .select({
+        date: activities.date,
+        transport: activities.transportEmissions,
+        energy: activities.energyEmissions,
+        food: activities.foodEmissions,
+        total: activities.totalEmissions,
+      })
+      .from(activities)
+      .where(
+        and(
+          eq(activities.userId, userId),
+          isConfirmed(),
+          gte(activities.date, startDate),
+          lte(activities.date, endDate),
+        ),
+      )
+      .orderBy(asc(activities.date));
+
+    return rows.map((row) => ({
+      date: row.date,
+      transport: row.transport || 0,
+      energy: row.energy || 0,
+      food: row.food || 0,
+      total: row.total,
+    }));
+  }
+
+  async getEnergyEmissionsBySource(userId: string, days: number = 30): Promise<EnergyBreakdown> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - days);
+
+    const rows = await db
+      .select()
+      .from(activities)
+      .where(
+        and(
+          eq(activities.userId, userId),
+          isConfirmed(),
+          gte(activities.date, cutoffDate.toISOString().split('T')[0])
+        )
+      );
+
+    const totals: EnergyBreakdown = {};
+    for (const row of rows) {
+      for (const [source, value] of Object.entries(getStoredEnergyBreakdown(row))) {
+        const key = source as keyof EnergyBreakdown;
+        totals[key] = (totals[key] ?? 0) + value;
+      }
+    }
+    return totals;
+  }
+
+  // Food catalog operations
+  async getFoodItems(): Promise<FoodItem[]> {
+    return await db
+      .select()
+      .from(foodItems)
+      .orderBy(foodItems.name);
+  }
+
+  // Items whose key already exists are left as configured
+  async createFoodItems(items: InsertFoodItem[]): Promise<FoodItem[]> {
+    if (items.length === 0) return [];
+    return await db
+      .insert(foodItems)
+      .values(items)
+      .onConflictDoNothing({ target: foodItems.key })
+      .returning();
+  }
+
+  // Vehicle operations
+  async getUserVehicles(userId: string): Promise<Vehicle[]> {
+    return await db
+      .select()
+      .from(vehicles)
+      .where(eq(vehicles.userId, userId))
+      .orderBy(vehicles.name);
+  }
+
+  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
+    const [newVehicle] = await db
+      .insert(vehicles)
+      .values(vehicle)
+      .returning();
+    return newVehicle;
+  }
+
+  async deleteVehicle(vehicleId: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(vehicles)
+      .where(and(eq(vehicles.id, vehicleId), eq(vehicles.userId, userId)))
+      .returning({ id: vehicles.id });
+    return deleted.length > 0;
+  }
+
+  // Activity template operations
+  async getUserActivityTemplates(userId: string): Promise<ActivityTemplate[]> {
+    return await db
+      .select()
+      .from(activityTemplates)
+      .where(eq(activityTemplates.userId, userId))
+      .orderBy(activityTemplates.name);
+  }
+
+  async getActivityTemplate(templateId: number, userId: string): Promise<ActivityTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(activityTemplates)
+      .where(and(eq(activityTemplates.id, templateId), eq(activityTemplates.userId, userId)));
+    return template;
+  }
+
+  // Templates the draft job fills in, across all users
+  async getAutoFillActivityTemplates(): Promise<ActivityTemplate[]> {
+    return await db
+      .select()
+      .from(activityTemplates)
+      .where(eq(activityTemplates.autoFill, true))
+      .orderBy(activityTemplates.userId, activityTemplates.id);
+  }
+
+  async createActivityTemplate(template: InsertActivityTemplate): Promise<ActivityTemplate> {
+    const [newTemplate] = await db
+      .insert(activityTemplates)
+      .values(template)
+      .returning();
+    return newTemplate;
+  }
+
+  async updateActivityTemplate(
+    templateId: number,
+    userId: string,
+    updates: Partial<InsertActivityTemplate> & { lastFilledDate?: string },
+  ): Promise<ActivityTemplate | undefined> {
+    const [updatedTemplate] = await db
+      .update(activityTemplates)
+      .set(updates)
+      .where(and(eq(activityTemplates.id, templateId), eq(activityTemplates.userId, userId)))
+      .returning();
+    return updatedTemplate;
+  }
+
+  async deleteActivityTemplate(templateId: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(activityTemplates)
+      .where(and(eq(activityTemplates.id, templateId), eq(activityTemplates.userId, userId)))
+      .returning({ id: activityTemplates.id });
+    return deleted.length > 0;
+  }
+
   // Goal operations
-  async createGoal(goal: InsertGoal): Promise<Goal> {
+  async createGoal(goal: InsertGoal & { seriesId?: number | null }): Promise<Goal> {
     const [newGoal] = await db
       .insert(goals)
       .values(goal)
@@ -198,6 +792,44 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(goals.createdAt));
   }
 
+  async getGoal(goalId: number, userId: string): Promise<Goal | undefined> {
+    const [goal] = await db
+      .select()
+      .from(goals)
+      .where(and(eq(goals.id, goalId), eq(goals.userId, userId)));
+    return goal;
+  }
+
+  // Active goals whose window is over, for every user
+  async getGoalsEndedBefore(date: string): Promise<Goal[]> {
+    return await db
+      .select()
+      .from(goals)
+      .where(and(eq(goals.status, "active"), lt(goals.endDate, date)));
+  }
+
+  // Settled recurring goals whose window is over and whose series has nothing
+  // after them yet. Paused and archived goals don't roll over.
+  async getGoalsToRollOver(date: string): Promise<Goal[]> {
+    const later = alias(goals, "later_goals");
+    return await db
+      .select()
+      .from(goals)
+      .where(
+        and(
+          eq(goals.recurring, true),
+          inArray(goals.status, ["completed", "failed"]),
+          lt(goals.endDate, date),
+          notExists(
+            db
+              .select({ id: later.id })
+              .from(later)
+              .where(and(eq(later.seriesId, goals.seriesId), gt(later.startDate, goals.endDate))),
+          ),
+        ),
+      );
+  }
+
   async updateGoal(goalId: number, updates: Partial<Goal>): Promise<Goal> {
     const [updatedGoal] = await db
       .update(goals)
@@ -207,6 +839,77 @@ export class DatabaseStorage implements IStorage {
     return updatedGoal;
   }
 
+  async deleteGoal(goalId: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(goals)
+      .where(and(eq(goals.id, goalId), eq(goals.userId, userId)))
+      .returning({ id: goals.id });
+    return deleted.length > 0;
+  }
+
+  // Emission factor operations
+  async getEmissionFactorsAsOf(date: string): Promise<EmissionFactor[]> {
+    return await db
+      .select()
+      .from(emissionFactors)
+      .where(
+        and(
+          lte(emissionFactors.validFrom, date),
+          or(isNull(emissionFactors.validTo), gte(emissionFactors.validTo, date))
+        )
+      )
+      .orderBy(desc(emissionFactors.validFrom));
+  }
+
+  async getEmissionFactorsByVersions(versions: string[]): Promise<EmissionFactor[]> {
+    if (versions.length === 0) return [];
+    return await db
+      .select()
+      .from(emissionFactors)
+      .where(inArray(emissionFactors.version, versions))
+      .orderBy(emissionFactors.version, emissionFactors.category, emissionFactors.key);
+  }
+
+  // Rows already in the registry for the same version, category, key and
+  // region are left as they are
+  async createEmissionFactors(factors: InsertEmissionFactor[]): Promise<EmissionFactor[]> {
+    if (factors.length === 0) return [];
+    return await db
+      .insert(emissionFactors)
+      .values(factors)
+      .onConflictDoNothing({
+        target: [emissionFactors.version, emissionFactors.category, emissionFactors.key, emissionFactors.region],
+      })
+      .returning();
+  }
+
+  // Recalculation operations
+  // The activity updates and the run recording them are saved together, so a
+  // failure partway leaves neither rewritten rows nor a missing diff
+  async createRecalculationRun(
+    run: InsertRecalculationRun,
+    updates: ActivityEmissionUpdate[] = [],
+  ): Promise<RecalculationRun> {
+    return await db.transaction(async (tx) => {
+      for (const { activityId, updates: activityUpdates } of updates) {
+        await tx.update(activities).set(activityUpdates).where(eq(activities.id, activityId));
+      }
+      const [newRun] = await tx
+        .insert(recalculationRuns)
+        .values(run)
+        .returning();
+      return newRun;
+    });
+  }
+
+  async getRecalculationRuns(limit: number = 20): Promise<RecalculationRun[]> {
+    return await db
+      .select()
+      .from(recalculationRuns)
+      .orderBy(desc(recalculationRuns.createdAt))
+      .limit(limit);
+  }
+
   // Achievement operations
   async createAchievement(achievement: InsertAchievement): Promise<Achievement> {
     const [newAchievement] = await db
@@ -243,6 +946,7 @@ export class DatabaseStorage implements IStorage {
       .leftJoin(activities, eq(users.id, activities.userId))
       .where(
         and(
+          isConfirmed(),
           gte(activities.date, startOfMonth.toISOString().split('T')[0]),
           lte(activities.date, endOfMonth.toISOString().split('T')[0])
         )
@@ -269,6 +973,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(activities.userId, userId),
+          isConfirmed(),
           gte(activities.date, startOfMonth.toISOString().split('T')[0]),
           lte(activities.date, endOfMonth.toISOString().split('T')[0])
         )
@@ -281,6 +986,7 @@ export class DatabaseStorage implements IStorage {
       .from(activities)
       .where(
         and(
+          isConfirmed(),
           gte(activities.date, startOfMonth.toISOString().split('T')[0]),
           lte(activities.date, endOfMonth.toISOString().split('T')[0])
         )
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { fillTemplateDrafts } from "./templates";
+import { addDays } from "@shared/goals";
+import type { ActivityTemplate, ActivityWithDetails } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getAutoFillActivityTemplates: vi.fn(),
+    getActivityByDate: vi.fn(),
+    createActivity: vi.fn(),
+    replaceActivity: vi.fn(),
+    updateActivityTemplate: vi.fn(),
+    getUser: vi.fn(),
+    getEmissionFactorsAsOf: vi.fn(async () => []),
+  },
+}));
+
+const now = new Date();
+const today = now.toISOString().split("T")[0];
+
+const template = (overrides: Partial<ActivityTemplate> = {}) =>
+  ({
+    id: 1,
+    userId: "user",
+    name: "Commute",
+    payload: { transportType: "bus", transportDistance: 10 },
+    recurrenceDays: [0, 1, 2, 3, 4, 5, 6],
+    autoFill: true,
+    lastFilledDate: null,
+    createdAt: new Date(`${addDays(today, -3)}T12:00:00Z`),
+    ...overrides,
+  }) as ActivityTemplate;
+
+const createdDates = () => vi.mocked(storage.createActivity).mock.calls.map(([activity]) => activity.date);
+const lastFilledDates = () =>
+  vi.mocked(storage.updateActivityTemplate).mock.calls.map(([, , update]) => update.lastFilledDate);
+
+describe("fillTemplateDrafts", () => {
+  beforeEach(() => {
+    vi.mocked(storage.getActivityByDate).mockReset().mockResolvedValue(undefined);
+    vi.mocked(storage.createActivity).mockReset();
+    vi.mocked(storage.updateActivityTemplate).mockReset();
+  });
+
+  it("fills the days since the template was created, up to yesterday", async () => {
+    vi.mocked(storage.getAutoFillActivityTemplates).mockResolvedValue([template()]);
+
+    expect(await fillTemplateDrafts(now)).toBe(3);
+    expect(createdDates()).toEqual([addDays(today, -3), addDays(today, -2), addDays(today, -1)]);
+    expect(vi.mocked(storage.createActivity).mock.calls[0][0]).toMatchObject({ status: "draft" });
+    expect(lastFilledDates().at(-1)).toBe(addDays(today, -1));
+  });
+
+  it("leaves today until it has ended", async () => {
+    vi.mocked(storage.getAutoFillActivityTemplates).mockResolvedValue([template({ lastFilledDate: addDays(today, -1) })]);
+
+    expect(await fillTemplateDrafts(now)).toBe(0);
+    expect(storage.createActivity).not.toHaveBeenCalled();
+    expect(storage.updateActivityTemplate).not.toHaveBeenCalled();
+  });
+
+  it("leaves days the user logged alone", async () => {
+    vi.mocked(storage.getAutoFillActivityTemplates).mockResolvedValue([template({ lastFilledDate: addDays(today, -2) })]);
+    vi.mocked(storage.getActivityByDate).mockResolvedValue({ id: 4, status: "confirmed" } as ActivityWithDetails);
+
+    expect(await fillTemplateDrafts(now)).toBe(0);
+    expect(storage.createActivity).not.toHaveBeenCalled();
+    expect(storage.replaceActivity).not.toHaveBeenCalled();
+    expect(lastFilledDates()).toContain(addDays(today, -1));
+  });
+});
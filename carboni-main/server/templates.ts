@@ -0,0 +1,85 @@
+import { storage } from "./storage";
+import { logActivity, prepareActivity, prepareActivityMerge } from "./activities";
+import { getUnitPreferences, activityToCanonical, activityFromCanonical } from "@shared/units";
+import { addDays } from "@shared/goals";
+import type { ActivityTemplate, ActivityTemplatePayload, User } from "@shared/schema";
+
+// How many days back the draft job catches up on, e.g. after the server was down
+const DRAFT_CATCH_UP_DAYS = 7;
+
+const toIsoDate = (date: Date) => date.toISOString().split('T')[0];
+
+// Template inputs arrive in the user's units and are stored canonical, so a
+// template keeps its meaning if the user changes unit preferences
+export function templatePayloadToCanonical(payload: ActivityTemplatePayload, user: User | undefined) {
+  return activityToCanonical(payload, getUnitPreferences(user));
+}
+
+export function templateFromCanonical(template: ActivityTemplate, user: User | undefined): ActivityTemplate {
+  return { ...template, payload: activityFromCanonical(template.payload, getUnitPreferences(user)) };
+}
+
+export function matchesRecurrence(template: ActivityTemplate, date: string): boolean {
+  return template.recurrenceDays.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+}
+
+// Log a template's inputs for a day, merging them into the day's record when
+// there is one, just like a log from the activity form
+export async function applyTemplate(template: ActivityTemplate, date?: string) {
+  const { payload } = templateFromCanonical(template, await storage.getUser(template.userId));
+  return await logActivity(template.userId, { ...payload, date });
+}
+
+// Days a template's next job run should consider: those after the last day it
+// covered, from its creation and at most DRAFT_CATCH_UP_DAYS back, up to the
+// last day that has ended
+function getDaysToFill(template: ActivityTemplate, lastDay: string): string[] {
+  const candidates = [addDays(lastDay, 1 - DRAFT_CATCH_UP_DAYS)];
+  if (template.lastFilledDate) candidates.push(addDays(template.lastFilledDate, 1));
+  if (template.createdAt) candidates.push(toIsoDate(template.createdAt));
+
+  const days: string[] = [];
+  for (let day = candidates.sort()[candidates.length - 1]; day <= lastDay; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// Pre-fill the past days matching each auto-fill template as drafts for their
+// owners to confirm. Today is left until it has ended, so the user can still
+// log it themselves. Days the user logged are left alone; a draft from another
+// template for the same day is added to. Returns the number of days written.
+export async function fillTemplateDrafts(now: Date = new Date()): Promise<number> {
+  const lastDay = addDays(toIsoDate(now), -1);
+  const templates = await storage.getAutoFillActivityTemplates();
+  let filled = 0;
+
+  for (const template of templates) {
+    const days = getDaysToFill(template, lastDay).filter((day) => matchesRecurrence(template, day));
+    if (days.length > 0) {
+      const { payload } = templateFromCanonical(template, await storage.getUser(template.userId));
+      for (const date of days) {
+        try {
+          const existing = await storage.getActivityByDate(template.userId, date);
+          if (!existing) {
+            const { activity, trips, mealItems } = await prepareActivity(template.userId, { ...payload, date });
+            await storage.createActivity({ ...activity, status: "draft" }, trips, mealItems);
+            filled++;
+          } else if (existing.status === "draft") {
+            const { activity, trips, mealItems } = await prepareActivityMerge(existing, payload);
+            await storage.replaceActivity(existing.id, activity, trips, mealItems);
+            filled++;
+          }
+        } catch (error) {
+          console.error(`Error filling template ${template.id} for ${date}:`, error);
+        }
+        // Recorded per day so a failed run doesn't add the same inputs twice
+        await storage.updateActivityTemplate(template.id, template.userId, { lastFilledDate: date });
+      }
+    }
+    if (!template.lastFilledDate || template.lastFilledDate < lastDay) {
+      await storage.updateActivityTemplate(template.id, template.userId, { lastFilledDate: lastDay });
+    }
+  }
+  return filled;
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { inferTransportMode, parseTrackFile, summarizeTrack } from "./tracks";
+
+// A GPX file holding one track segment
+const gpx = (points: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><name>Morning ride</name><trkseg>${points}</trkseg></trk>
+</gpx>`;
+
+const trkpt = (lat: number | string, lon: number | string, time?: string) =>
+  `<trkpt lat="${lat}" lon="${lon}">${time ? `<time>${time}</time>` : ""}</trkpt>`;
+
+const lineString = (coordinates: unknown[], properties: Record<string, unknown> = {}) =>
+  JSON.stringify({ type: "Feature", properties, geometry: { type: "LineString", coordinates } });
+
+describe("parseTrackFile", () => {
+  it("reads GPX tracks and routes", () => {
+    const tracks = parseTrackFile(`<gpx>
+      <trk><name>Walk</name><trkseg>${trkpt(0, 0, "2024-05-01T08:00:00Z")}${trkpt(0, 0.01, "2024-05-01T08:10:00Z")}</trkseg></trk>
+      <rte><name>Plan</name><rtept lat="1" lon="1"/><rtept lat="1" lon="1.01"/></rte>
+    </gpx>`);
+    expect(tracks).toEqual([
+      {
+        name: "Walk",
+        points: [
+          { lat: 0, lon: 0, time: Date.parse("2024-05-01T08:00:00Z") },
+          { lat: 0, lon: 0.01, time: Date.parse("2024-05-01T08:10:00Z") },
+        ],
+        invalidPoints: 0,
+      },
+      {
+        name: "Plan",
+        points: [
+          { lat: 1, lon: 1, time: null },
+          { lat: 1, lon: 1.01, time: null },
+        ],
+        invalidPoints: 0,
+      },
+    ]);
+  });
+
+  it("reads GeoJSON times from a fourth coordinate or a coordTimes property", () => {
+    const [fromCoordinates] = parseTrackFile(lineString([[0, 0, 0, 1714550400], [0.01, 0, 0, 1714551000]]));
+    expect(fromCoordinates.points.map((point) => point.time)).toEqual([1714550400000, 1714551000000]);
+
+    const [fromProperty] = parseTrackFile(
+      lineString([[0, 0], [0.01, 0]], { coordTimes: ["2024-05-01T08:00:00Z", "2024-05-01T08:10:00Z"] }),
+    );
+    expect(fromProperty.points.map((point) => point.time)).toEqual([1714550400000, 1714551000000]);
+  });
+
+  it("counts points outside the valid latitude and longitude range", () => {
+    const [gpxTrack] = parseTrackFile(gpx(`${trkpt(0, 0)}${trkpt(91, 0)}${trkpt(0, -181)}${trkpt("north", 0)}${trkpt(0, 0.01)}`));
+    expect(gpxTrack.points).toHaveLength(2);
+    expect(gpxTrack.invalidPoints).toBe(3);
+
+    const [geoJsonTrack] = parseTrackFile(lineString([[0, 0], [0, -90.5], [180.1, 0], [0.01, 0]]));
+    expect(geoJsonTrack.points).toHaveLength(2);
+    expect(geoJsonTrack.invalidPoints).toBe(2);
+  });
+
+  it("marks timestamps that are not valid dates", () => {
+    const [track] = parseTrackFile(gpx(`${trkpt(0, 0, "yesterday")}${trkpt(0, 0.01, "2024-05-01T08:10:00Z")}`));
+    expect(track.points[0].time).toBeNaN();
+  });
+
+  it("rejects files that are neither GPX nor GeoJSON", () => {
+    expect(() => parseTrackFile("<kml></kml>")).toThrow("Not a GPX file");
+    expect(() => parseTrackFile("lat,lon\n0,0")).toThrow("Not a GPX or GeoJSON file");
+    expect(() => parseTrackFile("[]")).toThrow("Not a GeoJSON file");
+  });
+});
+
+describe("summarizeTrack", () => {
+  it("measures distance and speed and infers the mode", () => {
+    const [track] = parseTrackFile(gpx(`${trkpt(0, 0, "2024-05-01T08:00:00Z")}${trkpt(0, 0.1, "2024-05-01T08:30:00Z")}`));
+    const summary = summarizeTrack(track, 0);
+    expect(summary.name).toBe("Morning ride");
+    expect(summary.date).toBe("2024-05-01");
+    expect(summary.distance).toBeCloseTo(6.9, 1);
+    expect(summary.durationSeconds).toBe(1800);
+    expect(summary.averageSpeedMph).toBeCloseTo(13.8, 1);
+    expect(summary.inferredMode).toBe("bike");
+    expect(summary.invalidTimes).toBe(0);
+    expect(summary.invalidPoints).toBe(0);
+  });
+
+  it("dates a track by the uploader's local day", () => {
+    const [track] = parseTrackFile(gpx(`${trkpt(0, 0, "2024-05-01T02:00:00Z")}${trkpt(0, 0.01, "2024-05-01T02:10:00Z")}`));
+    // UTC-5 (Date.getTimezoneOffset returns 300)
+    expect(summarizeTrack(track, 300).date).toBe("2024-04-30");
+    expect(summarizeTrack(track, -60).date).toBe("2024-05-01");
+  });
+
+  it("counts invalid timestamps and points", () => {
+    const [track] = parseTrackFile(gpx(`${trkpt(0, 0, "not a date")}${trkpt(95, 0)}${trkpt(0, 0.01, "2024-05-01T08:10:00Z")}`));
+    const summary = summarizeTrack(track, 0);
+    expect(summary.invalidTimes).toBe(1);
+    expect(summary.invalidPoints).toBe(1);
+    expect(summary.durationSeconds).toBeNull();
+  });
+
+  it("has no date or speed without timestamps", () => {
+    const [track] = parseTrackFile(gpx(`${trkpt(0, 0)}${trkpt(0, 0.01)}`));
+    const summary = summarizeTrack(track, 0);
+    expect(summary.date).toBeNull();
+    expect(summary.averageSpeedMph).toBeNull();
+    expect(summary.inferredMode).toBe("car_gasoline");
+  });
+});
+
+describe("inferTransportMode", () => {
+  it("picks the slowest mode whose speed limit the average is under", () => {
+    expect(inferTransportMode(3)).toBe("walking");
+    expect(inferTransportMode(12)).toBe("bike");
+    expect(inferTransportMode(40)).toBe("car_gasoline");
+    expect(inferTransportMode(90)).toBe("train");
+  });
+});
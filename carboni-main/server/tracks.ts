@@ -0,0 +1,181 @@
+import { parseXml, child, childrenNamed, descendants, type XmlElement } from "./xml";
+import { greatCircleMiles } from "@shared/geo";
+import type { GroundTransportType } from "@shared/emissions";
+
+// GPX and GeoJSON track files as recorded by fitness and navigation apps
+
+interface TrackPoint {
+  lat: number;
+  lon: number;
+  time: number | null; // ms since epoch; NaN when the recorded time is not a valid date
+}
+
+export interface Track {
+  name: string | null;
+  points: TrackPoint[];
+  invalidPoints: number; // points dropped for coordinates that are not a position on Earth
+}
+
+export interface TrackSummary {
+  name: string | null;
+  date: string | null;
+  distance: number; // miles
+  durationSeconds: number | null;
+  averageSpeedMph: number | null;
+  inferredMode: GroundTransportType;
+  invalidTimes: number; // points whose timestamp could not be read as a date
+  invalidPoints: number;
+}
+
+// Upper bounds of average speed (mph) for each inferred mode; anything faster
+// than a car averages is taken to be a train
+const MODE_SPEED_LIMITS: [GroundTransportType, number][] = [
+  ["walking", 4.5],
+  ["bike", 16],
+  ["car_gasoline", 75],
+];
+
+// Furthest a JavaScript date may lie from the epoch, in ms, less a day so
+// shifting a time to the uploader's local day stays in range
+const MAX_DATE_MS = 8.64e15 - 24 * 60 * 60 * 1000;
+
+// Numeric times may be in seconds or ms. A time that is present but not a
+// date JavaScript can represent is NaN, so its track can be rejected.
+const parseTime = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === "") return null;
+  let time = NaN;
+  if (typeof value === "number") time = value < 1e12 ? value * 1000 : value;
+  else if (typeof value === "string") time = Date.parse(value);
+  return Math.abs(time) <= MAX_DATE_MS ? time : NaN;
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPosition = (lat: number, lon: number) =>
+  Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+// Keep the points of a track that have a position, counting the rest so the
+// track can be rejected
+function toTrack(name: string | null, points: Array<TrackPoint | null>): Track {
+  const valid = points.filter((point): point is TrackPoint => point !== null);
+  return { name, points: valid, invalidPoints: points.length - valid.length };
+}
+
+function readGpxPoint(element: XmlElement): TrackPoint | null {
+  const lat = Number(element.attributes.lat);
+  const lon = Number(element.attributes.lon);
+  if (!isPosition(lat, lon)) return null;
+  return { lat, lon, time: parseTime(child(element, "time")?.text.trim()) };
+}
+
+// Tracks (trk, one per recorded activity) and planned routes (rte)
+function parseGpx(content: string): Track[] {
+  const gpx = descendants(parseXml(content), "gpx")[0];
+  if (!gpx) throw new Error("Not a GPX file");
+
+  const tracks = childrenNamed(gpx, "trk").map((trk) => ({
+    name: child(trk, "name")?.text.trim() || null,
+    points: childrenNamed(trk, "trkseg").flatMap((segment) => childrenNamed(segment, "trkpt")),
+  }));
+  const routes = childrenNamed(gpx, "rte").map((rte) => ({
+    name: child(rte, "name")?.text.trim() || null,
+    points: childrenNamed(rte, "rtept"),
+  }));
+
+  return [...tracks, ...routes].map(({ name, points }) => toTrack(name, points.map(readGpxPoint)));
+}
+
+// GeoJSON has no standard for timestamps. We read a fourth coordinate, or the
+// coordTimes/times property arrays written by GPX converters.
+function parseGeoJson(content: string): Track[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("Not a GPX or GeoJSON file");
+  }
+
+  let features: unknown[] = [];
+  if (isObject(data)) {
+    if (data.type === "FeatureCollection") features = Array.isArray(data.features) ? data.features : [];
+    else if (data.type === "Feature") features = [data];
+    else if (data.type) features = [{ type: "Feature", geometry: data, properties: {} }];
+  }
+  if (features.length === 0) throw new Error("Not a GeoJSON file");
+
+  return features.flatMap((feature) => {
+    const geometry = isObject(feature) && isObject(feature.geometry) ? feature.geometry : {};
+    const properties = isObject(feature) && isObject(feature.properties) ? feature.properties : {};
+    let lines: unknown[] = [];
+    if (geometry.type === "LineString") lines = [geometry.coordinates];
+    else if (geometry.type === "MultiLineString" && Array.isArray(geometry.coordinates)) lines = geometry.coordinates;
+    if (lines.length === 0) return [];
+
+    // One array per line for MultiLineStrings, a flat array for LineStrings
+    const times = properties.coordTimes ?? properties.times;
+    const timesFor = (lineIndex: number): unknown[] => {
+      if (!Array.isArray(times)) return [];
+      if (Array.isArray(times[0])) return Array.isArray(times[lineIndex]) ? times[lineIndex] : [];
+      return lineIndex === 0 ? times : [];
+    };
+
+    const points = lines.flatMap((line, lineIndex) =>
+      (Array.isArray(line) ? line : []).map((coordinate: unknown, pointIndex: number) => {
+        const [lon, lat, , time] = (Array.isArray(coordinate) ? coordinate : []).map(Number);
+        if (!isPosition(lat, lon)) return null;
+        const recorded = timesFor(lineIndex)[pointIndex] ?? (Number.isFinite(time) ? time : undefined);
+        return { lat, lon, time: parseTime(recorded) };
+      }),
+    );
+    return [toTrack(typeof properties.name === "string" ? properties.name : null, points)];
+  });
+}
+
+export function parseTrackFile(content: string): Track[] {
+  return content.trimStart().startsWith("<") ? parseGpx(content) : parseGeoJson(content);
+}
+
+export function inferTransportMode(averageSpeedMph: number | null): GroundTransportType {
+  if (averageSpeedMph === null) return "car_gasoline";
+  return MODE_SPEED_LIMITS.find(([, limit]) => averageSpeedMph < limit)?.[0] ?? "train";
+}
+
+// Distance and timing of a track. Its date is the local calendar day it
+// started on, given the uploader's offset from UTC in minutes (as returned by
+// Date.getTimezoneOffset, positive west of Greenwich).
+export function summarizeTrack(track: Track, timezoneOffset: number): TrackSummary {
+  let distance = 0;
+  for (let i = 1; i < track.points.length; i++) {
+    distance += greatCircleMiles(track.points[i - 1], track.points[i]);
+  }
+
+  // Long recordings have too many points to spread into Math.min
+  let start: number | null = null;
+  let end: number | null = null;
+  let invalidTimes = 0;
+  for (const { time } of track.points) {
+    if (time === null) continue;
+    if (Number.isNaN(time)) {
+      invalidTimes++;
+      continue;
+    }
+    if (start === null || time < start) start = time;
+    if (end === null || time > end) end = time;
+  }
+  const durationSeconds = start !== null && end !== null && end > start ? (end - start) / 1000 : null;
+  const averageSpeedMph = durationSeconds ? distance / (durationSeconds / 3600) : null;
+
+  return {
+    name: track.name,
+    date: start !== null ? new Date(start - timezoneOffset * 60 * 1000).toISOString().split("T")[0] : null,
+    distance,
+    durationSeconds,
+    averageSpeedMph,
+    inferredMode: inferTransportMode(averageSpeedMph),
+    invalidTimes,
+    invalidPoints: track.invalidPoints,
+  };
+}
@@ -0,0 +1,61 @@
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const XML_TOKEN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const XML_ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+// Namespace prefixes vary between producers (espi:, ns1:, none), so elements
+// are matched on their local name
+const localName = (name: string) => name.slice(name.indexOf(":") + 1);
+
+// Minimal XML reader: elements, attributes and text, which is all the
+// Green Button and GPX formats need
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack = [root];
+
+  for (const match of Array.from(xml.matchAll(XML_TOKEN))) {
+    const [, cdata, closing, name, attributeText, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      parent.text += cdata;
+    } else if (text !== undefined) {
+      parent.text += decodeEntities(text);
+    } else if (name && closing) {
+      if (stack.length > 1 && stack[stack.length - 1].name === localName(name)) stack.pop();
+    } else if (name) {
+      const attributes: Record<string, string> = {};
+      for (const [, key, double, single] of Array.from((attributeText ?? "").matchAll(XML_ATTRIBUTE))) {
+        attributes[localName(key)] = decodeEntities(double ?? single);
+      }
+      const element: XmlElement = { name: localName(name), attributes, children: [], text: "" };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+export const child = (element: XmlElement | undefined, name: string) => element?.children.find((c) => c.name === name);
+
+export const childrenNamed = (element: XmlElement | undefined, name: string) =>
+  element?.children.filter((c) => c.name === name) ?? [];
+
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap((c) => (c.name === name ? [c] : descendants(c, name)));
+}
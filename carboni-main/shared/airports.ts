@@ -0,0 +1,148 @@
+// Bundled airport dataset used for great-circle flight distances.
+// Coordinates are the airport reference points in decimal degrees.
+
+export interface Airport {
+  city: string;
+  country: string;
+  lat: number;
+  lon: number;
+}
+
+export const AIRPORTS: Record<string, Airport> = {
+  // United States
+  ABQ: { city: "Albuquerque", country: "US", lat: 35.0433, lon: -106.6129 },
+  ANC: { city: "Anchorage", country: "US", lat: 61.1743, lon: -149.9963 },
+  ATL: { city: "Atlanta", country: "US", lat: 33.6407, lon: -84.4277 },
+  AUS: { city: "Austin", country: "US", lat: 30.1975, lon: -97.6664 },
+  BNA: { city: "Nashville", country: "US", lat: 36.1263, lon: -86.6774 },
+  BOS: { city: "Boston", country: "US", lat: 42.3656, lon: -71.0096 },
+  BUF: { city: "Buffalo", country: "US", lat: 42.9405, lon: -78.7322 },
+  BWI: { city: "Baltimore", country: "US", lat: 39.1774, lon: -76.6684 },
+  CLE: { city: "Cleveland", country: "US", lat: 41.4117, lon: -81.8498 },
+  CLT: { city: "Charlotte", country: "US", lat: 35.2144, lon: -80.9473 },
+  CMH: { city: "Columbus", country: "US", lat: 39.998, lon: -82.8919 },
+  DAL: { city: "Dallas Love Field", country: "US", lat: 32.8471, lon: -96.8518 },
+  DCA: { city: "Washington National", country: "US", lat: 38.8512, lon: -77.0402 },
+  DEN: { city: "Denver", country: "US", lat: 39.8561, lon: -104.6737 },
+  DFW: { city: "Dallas/Fort Worth", country: "US", lat: 32.8998, lon: -97.0403 },
+  DTW: { city: "Detroit", country: "US", lat: 42.2162, lon: -83.3554 },
+  EWR: { city: "Newark", country: "US", lat: 40.6895, lon: -74.1745 },
+  FLL: { city: "Fort Lauderdale", country: "US", lat: 26.0742, lon: -80.1506 },
+  HNL: { city: "Honolulu", country: "US", lat: 21.3187, lon: -157.9225 },
+  HOU: { city: "Houston Hobby", country: "US", lat: 29.6454, lon: -95.2789 },
+  IAD: { city: "Washington Dulles", country: "US", lat: 38.9531, lon: -77.4565 },
+  IAH: { city: "Houston Intercontinental", country: "US", lat: 29.9902, lon: -95.3368 },
+  IND: { city: "Indianapolis", country: "US", lat: 39.7173, lon: -86.2944 },
+  JFK: { city: "New York JFK", country: "US", lat: 40.6413, lon: -73.7781 },
+  LAS: { city: "Las Vegas", country: "US", lat: 36.084, lon: -115.1537 },
+  LAX: { city: "Los Angeles", country: "US", lat: 33.9416, lon: -118.4085 },
+  LGA: { city: "New York LaGuardia", country: "US", lat: 40.7769, lon: -73.874 },
+  MCI: { city: "Kansas City", country: "US", lat: 39.2976, lon: -94.7139 },
+  MCO: { city: "Orlando", country: "US", lat: 28.4312, lon: -81.3081 },
+  MDW: { city: "Chicago Midway", country: "US", lat: 41.7868, lon: -87.7522 },
+  MIA: { city: "Miami", country: "US", lat: 25.7959, lon: -80.287 },
+  MSP: { city: "Minneapolis", country: "US", lat: 44.8848, lon: -93.2223 },
+  MSY: { city: "New Orleans", country: "US", lat: 29.9934, lon: -90.258 },
+  OAK: { city: "Oakland", country: "US", lat: 37.7126, lon: -122.2197 },
+  ORD: { city: "Chicago O'Hare", country: "US", lat: 41.9742, lon: -87.9073 },
+  PDX: { city: "Portland", country: "US", lat: 45.5898, lon: -122.5951 },
+  PHL: { city: "Philadelphia", country: "US", lat: 39.8744, lon: -75.2424 },
+  PHX: { city: "Phoenix", country: "US", lat: 33.4342, lon: -112.0116 },
+  PIT: { city: "Pittsburgh", country: "US", lat: 40.4958, lon: -80.2413 },
+  RDU: { city: "Raleigh-Durham", country: "US", lat: 35.8801, lon: -78.788 },
+  SAN: { city: "San Diego", country: "US", lat: 32.7338, lon: -117.1933 },
+  SAT: { city: "San Antonio", country: "US", lat: 29.5337, lon: -98.4698 },
+  SEA: { city: "Seattle", country: "US", lat: 47.4502, lon: -122.3088 },
+  SFO: { city: "San Francisco", country: "US", lat: 37.6213, lon: -122.379 },
+  SJC: { city: "San Jose", country: "US", lat: 37.3639, lon: -121.9289 },
+  SLC: { city: "Salt Lake City", country: "US", lat: 40.7899, lon: -111.9791 },
+  SMF: { city: "Sacramento", country: "US", lat: 38.6951, lon: -121.5908 },
+  STL: { city: "St. Louis", country: "US", lat: 38.7499, lon: -90.3748 },
+  TPA: { city: "Tampa", country: "US", lat: 27.9755, lon: -82.5332 },
+
+  // Canada and Mexico
+  YUL: { city: "Montreal", country: "CA", lat: 45.4706, lon: -73.7408 },
+  YVR: { city: "Vancouver", country: "CA", lat: 49.1967, lon: -123.1815 },
+  YYC: { city: "Calgary", country: "CA", lat: 51.1215, lon: -114.0076 },
+  YYZ: { city: "Toronto", country: "CA", lat: 43.6777, lon: -79.6248 },
+  CUN: { city: "Cancun", country: "MX", lat: 21.0365, lon: -86.8771 },
+  MEX: { city: "Mexico City", country: "MX", lat: 19.4361, lon: -99.0719 },
+
+  // Europe
+  AMS: { city: "Amsterdam", country: "NL", lat: 52.3105, lon: 4.7683 },
+  ARN: { city: "Stockholm", country: "SE", lat: 59.6498, lon: 17.9238 },
+  ATH: { city: "Athens", country: "GR", lat: 37.9364, lon: 23.9445 },
+  BCN: { city: "Barcelona", country: "ES", lat: 41.2974, lon: 2.0833 },
+  BER: { city: "Berlin", country: "DE", lat: 52.3667, lon: 13.5033 },
+  BRU: { city: "Brussels", country: "BE", lat: 50.9014, lon: 4.4844 },
+  CDG: { city: "Paris Charles de Gaulle", country: "FR", lat: 49.0097, lon: 2.5479 },
+  CPH: { city: "Copenhagen", country: "DK", lat: 55.618, lon: 12.6508 },
+  DUB: { city: "Dublin", country: "IE", lat: 53.4264, lon: -6.2499 },
+  EDI: { city: "Edinburgh", country: "GB", lat: 55.9508, lon: -3.3615 },
+  FCO: { city: "Rome", country: "IT", lat: 41.8003, lon: 12.2389 },
+  FRA: { city: "Frankfurt", country: "DE", lat: 50.0379, lon: 8.5622 },
+  GVA: { city: "Geneva", country: "CH", lat: 46.2381, lon: 6.109 },
+  HEL: { city: "Helsinki", country: "FI", lat: 60.3172, lon: 24.9633 },
+  IST: { city: "Istanbul", country: "TR", lat: 41.2753, lon: 28.7519 },
+  LGW: { city: "London Gatwick", country: "GB", lat: 51.1537, lon: -0.1821 },
+  LHR: { city: "London Heathrow", country: "GB", lat: 51.47, lon: -0.4543 },
+  LIS: { city: "Lisbon", country: "PT", lat: 38.7742, lon: -9.1342 },
+  MAD: { city: "Madrid", country: "ES", lat: 40.4983, lon: -3.5676 },
+  MAN: { city: "Manchester", country: "GB", lat: 53.3537, lon: -2.275 },
+  MUC: { city: "Munich", country: "DE", lat: 48.3537, lon: 11.775 },
+  MXP: { city: "Milan Malpensa", country: "IT", lat: 45.6301, lon: 8.7255 },
+  ORY: { city: "Paris Orly", country: "FR", lat: 48.7262, lon: 2.3652 },
+  OSL: { city: "Oslo", country: "NO", lat: 60.1976, lon: 11.1004 },
+  PRG: { city: "Prague", country: "CZ", lat: 50.1008, lon: 14.26 },
+  VIE: { city: "Vienna", country: "AT", lat: 48.1103, lon: 16.5697 },
+  WAW: { city: "Warsaw", country: "PL", lat: 52.1657, lon: 20.9671 },
+  ZRH: { city: "Zurich", country: "CH", lat: 47.4582, lon: 8.5555 },
+
+  // Middle East and Africa
+  AUH: { city: "Abu Dhabi", country: "AE", lat: 24.433, lon: 54.6511 },
+  CAI: { city: "Cairo", country: "EG", lat: 30.1219, lon: 31.4056 },
+  CPT: { city: "Cape Town", country: "ZA", lat: -33.9715, lon: 18.6021 },
+  DOH: { city: "Doha", country: "QA", lat: 25.2731, lon: 51.6081 },
+  DXB: { city: "Dubai", country: "AE", lat: 25.2532, lon: 55.3657 },
+  JNB: { city: "Johannesburg", country: "ZA", lat: -26.1367, lon: 28.2411 },
+  LOS: { city: "Lagos", country: "NG", lat: 6.5774, lon: 3.3212 },
+  NBO: { city: "Nairobi", country: "KE", lat: -1.3192, lon: 36.9278 },
+  TLV: { city: "Tel Aviv", country: "IL", lat: 32.0055, lon: 34.8854 },
+
+  // Asia
+  BKK: { city: "Bangkok", country: "TH", lat: 13.69, lon: 100.7501 },
+  BLR: { city: "Bengaluru", country: "IN", lat: 13.1986, lon: 77.7066 },
+  BOM: { city: "Mumbai", country: "IN", lat: 19.0896, lon: 72.8656 },
+  CGK: { city: "Jakarta", country: "ID", lat: -6.1256, lon: 106.6558 },
+  DEL: { city: "Delhi", country: "IN", lat: 28.5562, lon: 77.1 },
+  HKG: { city: "Hong Kong", country: "HK", lat: 22.308, lon: 113.9185 },
+  HND: { city: "Tokyo Haneda", country: "JP", lat: 35.5494, lon: 139.7798 },
+  ICN: { city: "Seoul Incheon", country: "KR", lat: 37.4602, lon: 126.4407 },
+  KIX: { city: "Osaka Kansai", country: "JP", lat: 34.432, lon: 135.2304 },
+  KUL: { city: "Kuala Lumpur", country: "MY", lat: 2.7456, lon: 101.7072 },
+  MNL: { city: "Manila", country: "PH", lat: 14.5086, lon: 121.0194 },
+  NRT: { city: "Tokyo Narita", country: "JP", lat: 35.772, lon: 140.3929 },
+  PEK: { city: "Beijing Capital", country: "CN", lat: 40.0799, lon: 116.6031 },
+  PVG: { city: "Shanghai Pudong", country: "CN", lat: 31.1443, lon: 121.8083 },
+  SIN: { city: "Singapore", country: "SG", lat: 1.3644, lon: 103.9915 },
+  TPE: { city: "Taipei Taoyuan", country: "TW", lat: 25.0797, lon: 121.2342 },
+
+  // Oceania
+  AKL: { city: "Auckland", country: "NZ", lat: -37.0082, lon: 174.785 },
+  BNE: { city: "Brisbane", country: "AU", lat: -27.3942, lon: 153.1218 },
+  MEL: { city: "Melbourne", country: "AU", lat: -37.669, lon: 144.841 },
+  PER: { city: "Perth", country: "AU", lat: -31.9385, lon: 115.9672 },
+  SYD: { city: "Sydney", country: "AU", lat: -33.9399, lon: 151.1753 },
+
+  // South America
+  BOG: { city: "Bogota", country: "CO", lat: 4.7016, lon: -74.1469 },
+  EZE: { city: "Buenos Aires", country: "AR", lat: -34.8222, lon: -58.5358 },
+  GIG: { city: "Rio de Janeiro", country: "BR", lat: -22.809, lon: -43.2506 },
+  GRU: { city: "Sao Paulo", country: "BR", lat: -23.4356, lon: -46.4731 },
+  LIM: { city: "Lima", country: "PE", lat: -12.0219, lon: -77.1143 },
+  SCL: { city: "Santiago", country: "CL", lat: -33.393, lon: -70.7858 },
+};
+
+export function isAirportCode(value: unknown): value is string {
+  return typeof value === "string" && value in AIRPORTS;
+}
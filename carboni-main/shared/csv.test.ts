@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("splits rows and cells", () => {
+    expect(parseCsv("date,electricity\n2024-01-01,12\n2024-01-02,9\n")).toEqual([
+      ["date", "electricity"],
+      ["2024-01-01", "12"],
+      ["2024-01-02", "9"],
+    ]);
+  });
+
+  it("keeps commas, escaped quotes and line breaks inside quoted cells", () => {
+    expect(parseCsv('note,value\n"a, b",1\n"say ""hi""",2\n"two\nlines",3')).toEqual([
+      ["note", "value"],
+      ["a, b", "1"],
+      ['say "hi"', "2"],
+      ["two\nlines", "3"],
+    ]);
+  });
+
+  it("handles CRLF and lone CR line endings", () => {
+    expect(parseCsv("a,b\r\n1,2\r3,4\r\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("strips a leading byte order mark", () => {
+    expect(parseCsv("\ufeffdate,total\n2024-01-01,5")).toEqual([
+      ["date", "total"],
+      ["2024-01-01", "5"],
+    ]);
+  });
+
+  it("skips blank lines but keeps empty cells", () => {
+    expect(parseCsv("a,b,c\n\n1,,3\n , \n,,\n")).toEqual([
+      ["a", "b", "c"],
+      ["1", "", "3"],
+    ]);
+  });
+
+  it("keeps a final row without a trailing newline", () => {
+    expect(parseCsv("a\n1")).toEqual([["a"], ["1"]]);
+    expect(parseCsv("a,")).toEqual([["a", ""]]);
+  });
+
+  it("returns no rows for empty input", () => {
+    expect(parseCsv("")).toEqual([]);
+    expect(parseCsv("\ufeff\n\n")).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { EMISSION_FACTORS, ENERGY_USAGE_FIELDS, calculateEmissions, type EnergySource } from "./emissions";
+
+// Pinned results for every factor in the engine. A change here changes what
+// both the activity form previews and the API stores, so update these only
+// alongside a deliberate factor change.
+
+// 100 miles on each ground mode, one person on board
+const GROUND_TRANSPORT: Record<string, number> = {
+  car_gasoline: 39,
+  car_electric: 13,
+  bus: 7,
+  train: 4.5,
+  bike: 0,
+  walking: 0,
+};
+
+// Economy flights by entered distance, one per haul band
+const FLIGHTS: Record<string, { distance: number; expected: number }> = {
+  flight_short_haul: { distance: 200, expected: 41.4 },
+  flight_medium_haul: { distance: 1000, expected: 129 },
+  flight_long_haul: { distance: 3000, expected: 489 },
+};
+
+// Vehicle profiles burning three gallons of fuel
+const VEHICLE_FUELS: Record<string, { mpg: number; distance: number; expected: number }> = {
+  gasoline: { mpg: 30, distance: 90, expected: 26.66 },
+  diesel: { mpg: 40, distance: 120, expected: 30.54 },
+};
+
+// 10 canonical units (kWh, therms, gallons or kg) of each source
+const ENERGY: Record<EnergySource, number> = {
+  electricity: 3.7,
+  naturalGas: 53,
+  heatingOil: 102.1,
+  propane: 57.2,
+  wood: 0.5,
+  districtHeat: 1.7,
+};
+
+// 500 g of each catalog food
+const FOOD: Record<string, number> = {
+  beef: 15.2,
+  lamb: 12.25,
+  pork: 3.8,
+  bacon: 3.8,
+  chicken: 2.1,
+  turkey: 2.85,
+  farmed_fish: 2.55,
+  salmon: 3,
+  tuna: 3.05,
+  shrimp: 6,
+  milk: 0.95,
+  cheese: 6.75,
+  butter: 4.5,
+  yogurt: 1.1,
+  eggs: 2.25,
+  plant_milk: 0.45,
+  rice: 2,
+  bread: 0.7,
+  pasta: 0.8,
+  oats: 0.8,
+  corn: 0.55,
+  beans: 0.4,
+  lentils: 0.45,
+  chickpeas: 0.4,
+  peas: 0.2,
+  tofu: 1,
+  nuts: 0.15,
+  peanuts: 1.25,
+  vegetables: 0.5,
+  potatoes: 0.15,
+  root_vegetables: 0.2,
+  tomatoes: 0.7,
+  leafy_greens: 0.3,
+  apples: 0.2,
+  bananas: 0.4,
+  citrus: 0.2,
+  berries: 0.75,
+  coffee: 14.25,
+  chocolate: 23.35,
+  sugar: 1.6,
+  olive_oil: 3,
+};
+
+describe("calculateEmissions", () => {
+  it("pins every factor in the engine", () => {
+    expect(Object.keys(EMISSION_FACTORS.transport).sort()).toEqual(
+      [...Object.keys(GROUND_TRANSPORT), ...Object.keys(FLIGHTS), ...Object.keys(VEHICLE_FUELS)].sort(),
+    );
+    expect(Object.keys(EMISSION_FACTORS.energy).sort()).toEqual(Object.keys(ENERGY).sort());
+    expect(Object.keys(EMISSION_FACTORS.food).sort()).toEqual(Object.keys(FOOD).sort());
+  });
+
+  it.each(Object.entries(GROUND_TRANSPORT))("transport: %s", (mode, expected) => {
+    const result = calculateEmissions({ trips: [{ mode, distance: 100 }] });
+    expect(result.transportEmissions).toBe(expected);
+    expect(result.totalEmissions).toBe(expected);
+  });
+
+  it.each(Object.entries(FLIGHTS))("transport: %s", (_key, { distance, expected }) => {
+    const result = calculateEmissions({ trips: [{ mode: "flight", distance }] });
+    expect(result.transportEmissions).toBe(expected);
+  });
+
+  it.each(Object.entries(VEHICLE_FUELS))("transport: %s vehicle", (fuelType, { mpg, distance, expected }) => {
+    const result = calculateEmissions({
+      trips: [{ mode: "car_gasoline", distance, vehicle: { fuelType, mpg } }],
+    });
+    expect(result.transportEmissions).toBe(expected);
+  });
+
+  it.each(Object.entries(ENERGY))("energy: %s", (source, expected) => {
+    const result = calculateEmissions({ [ENERGY_USAGE_FIELDS[source as EnergySource]]: 10 });
+    expect(result.energyEmissions).toBe(expected);
+    expect(result.energyBreakdown).toEqual({ [source]: expected });
+  });
+
+  it.each(Object.entries(FOOD))("food: %s", (foodKey, expected) => {
+    const result = calculateEmissions({ mealItems: [{ foodKey, grams: 500 }] });
+    expect(result.foodEmissions).toBe(expected);
+  });
+
+  it("food: legacy beef, chicken and vegetable servings", () => {
+    const result = calculateEmissions({ beefServings: 2, chickenServings: 1, vegetableServings: 2 });
+    expect(result.foodEmissions).toBe(31.54);
+    expect(result.totalEmissions).toBe(31.54);
+  });
+});
@@ -0,0 +1,250 @@
+// Emissions engine shared by the API and the client so the number previewed in
+// the activity form is the same number that gets stored.
+
+import { calculateFlightEmissions, type FlightData } from "./flights";
+import { getVehicleEmissionsPerMile, type VehicleProfile } from "./vehicles";
+import { FOOD_CATALOG, type MealItemData } from "./foods";
+
+// Carbon emission factors (EPA 2025 data)
+export const EMISSION_FACTORS = {
+  transport: {
+    car_gasoline: 0.39, // kg CO2e per mile
+    car_electric: 0.13, // kg CO2e per mile (considering US grid average)
+    bus: 0.07, // kg CO2e per mile per passenger
+    train: 0.045, // kg CO2e per mile per passenger
+    bike: 0,
+    walking: 0,
+    flight_short_haul: 0.207, // kg CO2e per passenger mile, under 300 miles
+    flight_medium_haul: 0.129, // kg CO2e per passenger mile, 300-2300 miles
+    flight_long_haul: 0.163, // kg CO2e per passenger mile, 2300 miles and over
+    gasoline: 8.887, // kg CO2e per gallon burned, for vehicle profiles
+    diesel: 10.18, // kg CO2e per gallon burned, for vehicle profiles
+  },
+  energy: {
+    electricity: 0.37, // kg CO2e per kWh (US average)
+    naturalGas: 5.3, // kg CO2e per therm
+    heatingOil: 10.21, // kg CO2e per gallon (No. 2 fuel oil)
+    propane: 5.72, // kg CO2e per gallon
+    wood: 0.05, // kg CO2e per kg of firewood (CH4 and N2O; biogenic CO2 excluded)
+    districtHeat: 0.17, // kg CO2e per kWh of delivered heat
+  },
+  // kg CO2e per kg for every item in the food catalog
+  food: Object.fromEntries(FOOD_CATALOG.map((item) => [item.key, item.kgCo2ePerKg])) as Record<string, number>,
+};
+
+// Version id and provenance of the bundled factors above
+export const DEFAULT_FACTOR_VERSION = "epa-2025";
+export const DEFAULT_FACTOR_SOURCE = "EPA 2025 emission factors";
+export const DEFAULT_FACTOR_REGION = "US";
+export const DEFAULT_FACTOR_VALID_FROM = "2025-01-01";
+
+// Unit of each registry factor, with a per-category default
+export const FACTOR_UNITS: Record<string, Record<string, string>> = {
+  transport: {
+    default: "kg CO2e/mile",
+    gasoline: "kg CO2e/gallon",
+    diesel: "kg CO2e/gallon",
+  },
+  energy: {
+    default: "kg CO2e/kWh",
+    naturalGas: "kg CO2e/therm",
+    heatingOil: "kg CO2e/gallon",
+    propane: "kg CO2e/gallon",
+    wood: "kg CO2e/kg",
+  },
+  food: {
+    default: "kg CO2e/kg",
+  },
+};
+
+// Serving sizes in kg used to convert the legacy per-activity servings into
+// food mass
+export const SERVING_SIZES_KG = {
+  beef: 0.5,
+  chicken: 0.2,
+  vegetables: 0.15,
+};
+
+export type EmissionFactors = typeof EMISSION_FACTORS;
+export type FactorCategory = keyof EmissionFactors;
+
+export const FACTOR_CATEGORIES = Object.keys(EMISSION_FACTORS) as FactorCategory[];
+
+// Factor version ids used per category, stored alongside each activity
+export type FactorVersions = Record<FactorCategory, string>;
+
+export interface FactorSet {
+  factors: EmissionFactors;
+  versions: FactorVersions;
+}
+
+export const DEFAULT_FACTOR_SET: FactorSet = {
+  factors: EMISSION_FACTORS,
+  versions: {
+    transport: DEFAULT_FACTOR_VERSION,
+    energy: DEFAULT_FACTOR_VERSION,
+    food: DEFAULT_FACTOR_VERSION,
+  },
+};
+
+// Home energy sources and the activity field holding each one's usage, in
+// canonical units: kWh, therms, gallons, gallons, kg, kWh
+export const ENERGY_SOURCES = ["electricity", "naturalGas", "heatingOil", "propane", "wood", "districtHeat"] as const;
+
+export type EnergySource = (typeof ENERGY_SOURCES)[number];
+
+export const ENERGY_USAGE_FIELDS = {
+  electricity: "electricityUsage",
+  naturalGas: "naturalGasUsage",
+  heatingOil: "heatingOilUsage",
+  propane: "propaneUsage",
+  wood: "woodUsage",
+  districtHeat: "districtHeatUsage",
+} as const satisfies Record<EnergySource, string>;
+
+// Energy emissions per source, kg CO2e; sources without usage are omitted
+export type EnergyBreakdown = Partial<Record<EnergySource, number>>;
+
+export const GROUND_TRANSPORT_TYPES = ["car_gasoline", "car_electric", "bus", "train", "bike", "walking"] as const;
+export const TRANSPORT_TYPES = [...GROUND_TRANSPORT_TYPES, "flight"] as const;
+
+export type GroundTransportType = (typeof GROUND_TRANSPORT_TYPES)[number];
+export type TransportType = (typeof TRANSPORT_TYPES)[number];
+
+export function isTransportType(value: unknown): value is TransportType {
+  return typeof value === "string" && TRANSPORT_TYPES.includes(value as TransportType);
+}
+
+export function isGroundTransportType(value: unknown): value is GroundTransportType {
+  return typeof value === "string" && GROUND_TRANSPORT_TYPES.includes(value as GroundTransportType);
+}
+
+// Private vehicles are shared by their passengers; transit factors are
+// already per passenger
+export const SHARED_VEHICLE_TYPES: TransportType[] = ["car_gasoline", "car_electric"];
+
+// A transport leg; flights also carry their airport pair and cabin details,
+// and car legs may reference one of the user's vehicle profiles
+export interface TripData extends FlightData {
+  mode: string;
+  distance: number;
+  passengers?: number | null;
+  vehicleId?: number | null;
+  vehicle?: VehicleProfile | null;
+}
+
+export interface ActivityData {
+  trips?: TripData[] | null;
+  transportType?: string | null;
+  transportDistance?: number | null;
+  electricityUsage?: number | null;
+  naturalGasUsage?: number | null;
+  heatingOilUsage?: number | null;
+  propaneUsage?: number | null;
+  woodUsage?: number | null;
+  districtHeatUsage?: number | null;
+  beefServings?: number | null;
+  chickenServings?: number | null;
+  vegetableServings?: number | null;
+  mealItems?: MealItemData[] | null;
+}
+
+export interface EmissionResults {
+  transportEmissions: number;
+  energyEmissions: number;
+  energyBreakdown: EnergyBreakdown;
+  foodEmissions: number;
+  totalEmissions: number;
+}
+
+// Summary transport columns for an activity made up of trips
+export function summarizeTrips(trips: TripData[]): { transportType: string | null; transportDistance: number | null } {
+  if (trips.length === 0) {
+    return { transportType: null, transportDistance: null };
+  }
+
+  const modes = new Set(trips.map((trip) => trip.mode));
+  return {
+    transportType: modes.size === 1 ? trips[0].mode : "multi_modal",
+    transportDistance: trips.reduce((total, trip) => total + trip.distance, 0),
+  };
+}
+
+export function roundEmissions(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Unrounded emissions for a single transport leg
+export function calculateTripEmissions(trip: TripData, factors: EmissionFactors = EMISSION_FACTORS): number {
+  if (trip.mode === "flight") return calculateFlightEmissions(trip, factors);
+  if (!trip.distance || !isGroundTransportType(trip.mode)) return 0;
+  if (!SHARED_VEHICLE_TYPES.includes(trip.mode)) return factors.transport[trip.mode] * trip.distance;
+
+  // Private vehicles: use the vehicle profile when it has enough data, and
+  // split the vehicle's emissions across everyone on board
+  const vehiclePerMile = trip.vehicle ? getVehicleEmissionsPerMile(trip.vehicle, factors) : null;
+  const perMile = vehiclePerMile ?? factors.transport[trip.mode];
+  const occupants = Math.max(trip.passengers ?? trip.vehicle?.defaultOccupancy ?? 1, 1);
+  return (perMile * trip.distance) / occupants;
+}
+
+// Unrounded energy emissions for each source with usage
+export function calculateEnergyBreakdown(data: ActivityData, factors: EmissionFactors = EMISSION_FACTORS): EnergyBreakdown {
+  const breakdown: EnergyBreakdown = {};
+  for (const source of ENERGY_SOURCES) {
+    const usage = data[ENERGY_USAGE_FIELDS[source]];
+    if (usage) breakdown[source] = factors.energy[source] * usage;
+  }
+  return breakdown;
+}
+
+export function calculateEmissions(
+  data: ActivityData,
+  factors: EmissionFactors = EMISSION_FACTORS,
+): EmissionResults {
+  let transportEmissions = 0;
+  let energyEmissions = 0;
+  let foodEmissions = 0;
+
+  // Transport emissions: the sum of all legs, or the single legacy transport
+  // entry for days logged before trips existed (unknown types contribute nothing)
+  if (data.trips && data.trips.length > 0) {
+    for (const trip of data.trips) {
+      transportEmissions += calculateTripEmissions(trip, factors);
+    }
+  } else if (data.transportDistance && isGroundTransportType(data.transportType)) {
+    transportEmissions = factors.transport[data.transportType] * data.transportDistance;
+  }
+
+  // Energy emissions, by source
+  const energyBreakdown = calculateEnergyBreakdown(data, factors);
+  for (const source of ENERGY_SOURCES) {
+    energyEmissions += energyBreakdown[source] ?? 0;
+  }
+
+  // Food emissions: catalog items by mass, plus the legacy fixed servings
+  for (const item of data.mealItems ?? []) {
+    foodEmissions += (factors.food[item.foodKey] ?? 0) * (item.grams / 1000);
+  }
+  if (data.beefServings) {
+    foodEmissions += factors.food.beef * SERVING_SIZES_KG.beef * data.beefServings;
+  }
+  if (data.chickenServings) {
+    foodEmissions += factors.food.chicken * SERVING_SIZES_KG.chicken * data.chickenServings;
+  }
+  if (data.vegetableServings) {
+    foodEmissions += factors.food.vegetables * SERVING_SIZES_KG.vegetables * data.vegetableServings;
+  }
+
+  const totalEmissions = transportEmissions + energyEmissions + foodEmissions;
+
+  return {
+    transportEmissions: roundEmissions(transportEmissions),
+    energyEmissions: roundEmissions(energyEmissions),
+    energyBreakdown: Object.fromEntries(
+      Object.entries(energyBreakdown).map(([source, value]) => [source, roundEmissions(value)]),
+    ),
+    foodEmissions: roundEmissions(foodEmissions),
+    totalEmissions: roundEmissions(totalEmissions),
+  };
+}
@@ -0,0 +1,69 @@
+import { AIRPORTS } from "./airports";
+import { greatCircleMiles } from "./geo";
+import type { EmissionFactors } from "./emissions";
+
+// Haul bands by flight distance in miles (EPA GHG emission factors hub)
+export const SHORT_HAUL_MAX_MILES = 300;
+export const MEDIUM_HAUL_MAX_MILES = 2300;
+
+// Cabin class multipliers relative to economy, reflecting seat floor space
+export const CABIN_CLASS_MULTIPLIERS = {
+  economy: 1,
+  premium_economy: 1.6,
+  business: 2.9,
+  first: 4,
+};
+
+// Optional uplift for non-CO2 warming effects of aviation at altitude
+export const RADIATIVE_FORCING_MULTIPLIER = 1.9;
+
+export type CabinClass = keyof typeof CABIN_CLASS_MULTIPLIERS;
+export type FlightHaul = "short_haul" | "medium_haul" | "long_haul";
+
+export const CABIN_CLASSES = Object.keys(CABIN_CLASS_MULTIPLIERS) as CabinClass[];
+
+export interface FlightData {
+  origin?: string | null;
+  destination?: string | null;
+  distance?: number | null;
+  cabinClass?: string | null;
+  radiativeForcing?: boolean | null;
+}
+
+// Great-circle distance between two airports in miles, or null when either
+// code is not in the bundled dataset
+export function getFlightDistance(origin: string, destination: string): number | null {
+  const from = AIRPORTS[origin];
+  const to = AIRPORTS[destination];
+  if (!from || !to) return null;
+
+  return greatCircleMiles(from, to);
+}
+
+export function getFlightHaul(distance: number): FlightHaul {
+  if (distance < SHORT_HAUL_MAX_MILES) return "short_haul";
+  if (distance < MEDIUM_HAUL_MAX_MILES) return "medium_haul";
+  return "long_haul";
+}
+
+// Flight distance from the airport pair when known, else the entered distance
+export function resolveFlightDistance(flight: FlightData): number {
+  if (flight.origin && flight.destination) {
+    const distance = getFlightDistance(flight.origin, flight.destination);
+    if (distance !== null) return distance;
+  }
+  return flight.distance ?? 0;
+}
+
+// Unrounded per-passenger emissions for a flight
+export function calculateFlightEmissions(flight: FlightData, factors: EmissionFactors): number {
+  const distance = resolveFlightDistance(flight);
+  if (!distance) return 0;
+
+  const haul = getFlightHaul(distance);
+  const cabin = (flight.cabinClass ?? "economy") as CabinClass;
+  const cabinMultiplier = CABIN_CLASS_MULTIPLIERS[cabin] ?? CABIN_CLASS_MULTIPLIERS.economy;
+  const forcingMultiplier = flight.radiativeForcing ? RADIATIVE_FORCING_MULTIPLIER : 1;
+
+  return factors.transport[`flight_${haul}`] * distance * cabinMultiplier * forcingMultiplier;
+}
@@ -0,0 +1,92 @@
+export const FOOD_CATEGORIES = ["meat", "seafood", "dairy_eggs", "grains", "legumes_nuts", "produce", "other"] as const;
+
+export type FoodCategory = (typeof FOOD_CATEGORIES)[number];
+
+export const FOOD_CATEGORY_LABELS: Record<FoodCategory, string> = {
+  meat: "Meat",
+  seafood: "Fish & Seafood",
+  dairy_eggs: "Dairy & Eggs",
+  grains: "Grains",
+  legumes_nuts: "Legumes & Nuts",
+  produce: "Fruit & Vegetables",
+  other: "Other",
+};
+
+export interface FoodPortion {
+  label: string;
+  grams: number;
+}
+
+export interface FoodCatalogEntry {
+  key: string;
+  name: string;
+  category: FoodCategory;
+  kgCo2ePerKg: number;
+  portions: FoodPortion[];
+}
+
+// Bundled food catalog, seeded into the food_items table. Factors are kg CO2e
+// per kg of food (farm to retail, Poore & Nemecek 2018 means); they seed the
+// food category of the emission factor registry, which is what the engine reads.
+export const FOOD_CATALOG: FoodCatalogEntry[] = [
+  // Meat
+  { key: "beef", name: "Beef", category: "meat", kgCo2ePerKg: 30.4, portions: [{ label: "Steak", grams: 225 }, { label: "Burger patty", grams: 115 }] },
+  { key: "lamb", name: "Lamb", category: "meat", kgCo2ePerKg: 24.5, portions: [{ label: "Chop", grams: 120 }, { label: "Serving", grams: 150 }] },
+  { key: "pork", name: "Pork", category: "meat", kgCo2ePerKg: 7.6, portions: [{ label: "Chop", grams: 150 }, { label: "Serving", grams: 120 }] },
+  { key: "bacon", name: "Bacon", category: "meat", kgCo2ePerKg: 7.6, portions: [{ label: "Slice", grams: 10 }] },
+  { key: "chicken", name: "Chicken", category: "meat", kgCo2ePerKg: 4.2, portions: [{ label: "Breast", grams: 170 }, { label: "Serving", grams: 120 }] },
+  { key: "turkey", name: "Turkey", category: "meat", kgCo2ePerKg: 5.7, portions: [{ label: "Serving", grams: 120 }] },
+
+  // Fish & seafood
+  { key: "farmed_fish", name: "Farmed fish", category: "seafood", kgCo2ePerKg: 5.1, portions: [{ label: "Fillet", grams: 150 }] },
+  { key: "salmon", name: "Salmon", category: "seafood", kgCo2ePerKg: 6.0, portions: [{ label: "Fillet", grams: 150 }] },
+  { key: "tuna", name: "Tuna", category: "seafood", kgCo2ePerKg: 6.1, portions: [{ label: "Can", grams: 120 }, { label: "Steak", grams: 150 }] },
+  { key: "shrimp", name: "Shrimp", category: "seafood", kgCo2ePerKg: 12.0, portions: [{ label: "Serving", grams: 100 }] },
+
+  // Dairy & eggs
+  { key: "milk", name: "Milk", category: "dairy_eggs", kgCo2ePerKg: 1.9, portions: [{ label: "Glass", grams: 250 }, { label: "Splash", grams: 30 }] },
+  { key: "cheese", name: "Cheese", category: "dairy_eggs", kgCo2ePerKg: 13.5, portions: [{ label: "Slice", grams: 20 }, { label: "Serving", grams: 40 }] },
+  { key: "butter", name: "Butter", category: "dairy_eggs", kgCo2ePerKg: 9.0, portions: [{ label: "Tablespoon", grams: 14 }] },
+  { key: "yogurt", name: "Yogurt", category: "dairy_eggs", kgCo2ePerKg: 2.2, portions: [{ label: "Pot", grams: 150 }] },
+  { key: "eggs", name: "Eggs", category: "dairy_eggs", kgCo2ePerKg: 4.5, portions: [{ label: "Egg", grams: 50 }] },
+  { key: "plant_milk", name: "Plant milk", category: "dairy_eggs", kgCo2ePerKg: 0.9, portions: [{ label: "Glass", grams: 250 }, { label: "Splash", grams: 30 }] },
+
+  // Grains
+  { key: "rice", name: "Rice", category: "grains", kgCo2ePerKg: 4.0, portions: [{ label: "Cooked cup", grams: 75 }] },
+  { key: "bread", name: "Bread", category: "grains", kgCo2ePerKg: 1.4, portions: [{ label: "Slice", grams: 35 }] },
+  { key: "pasta", name: "Pasta", category: "grains", kgCo2ePerKg: 1.6, portions: [{ label: "Serving (dry)", grams: 80 }] },
+  { key: "oats", name: "Oats", category: "grains", kgCo2ePerKg: 1.6, portions: [{ label: "Bowl (dry)", grams: 40 }] },
+  { key: "corn", name: "Corn", category: "grains", kgCo2ePerKg: 1.1, portions: [{ label: "Cob", grams: 100 }] },
+
+  // Legumes & nuts
+  { key: "beans", name: "Beans", category: "legumes_nuts", kgCo2ePerKg: 0.8, portions: [{ label: "Cooked cup", grams: 170 }] },
+  { key: "lentils", name: "Lentils", category: "legumes_nuts", kgCo2ePerKg: 0.9, portions: [{ label: "Cooked cup", grams: 200 }] },
+  { key: "chickpeas", name: "Chickpeas", category: "legumes_nuts", kgCo2ePerKg: 0.8, portions: [{ label: "Cooked cup", grams: 165 }] },
+  { key: "peas", name: "Peas", category: "legumes_nuts", kgCo2ePerKg: 0.4, portions: [{ label: "Serving", grams: 80 }] },
+  { key: "tofu", name: "Tofu", category: "legumes_nuts", kgCo2ePerKg: 2.0, portions: [{ label: "Serving", grams: 125 }] },
+  { key: "nuts", name: "Nuts", category: "legumes_nuts", kgCo2ePerKg: 0.3, portions: [{ label: "Handful", grams: 30 }] },
+  { key: "peanuts", name: "Peanuts", category: "legumes_nuts", kgCo2ePerKg: 2.5, portions: [{ label: "Handful", grams: 30 }] },
+
+  // Fruit & vegetables
+  { key: "vegetables", name: "Mixed vegetables", category: "produce", kgCo2ePerKg: 1.0, portions: [{ label: "Serving", grams: 150 }] },
+  { key: "potatoes", name: "Potatoes", category: "produce", kgCo2ePerKg: 0.3, portions: [{ label: "Medium potato", grams: 175 }] },
+  { key: "root_vegetables", name: "Root vegetables", category: "produce", kgCo2ePerKg: 0.4, portions: [{ label: "Serving", grams: 80 }] },
+  { key: "tomatoes", name: "Tomatoes", category: "produce", kgCo2ePerKg: 1.4, portions: [{ label: "Tomato", grams: 120 }] },
+  { key: "leafy_greens", name: "Leafy greens", category: "produce", kgCo2ePerKg: 0.6, portions: [{ label: "Side salad", grams: 50 }] },
+  { key: "apples", name: "Apples", category: "produce", kgCo2ePerKg: 0.4, portions: [{ label: "Apple", grams: 180 }] },
+  { key: "bananas", name: "Bananas", category: "produce", kgCo2ePerKg: 0.8, portions: [{ label: "Banana", grams: 120 }] },
+  { key: "citrus", name: "Citrus fruit", category: "produce", kgCo2ePerKg: 0.4, portions: [{ label: "Orange", grams: 150 }] },
+  { key: "berries", name: "Berries", category: "produce", kgCo2ePerKg: 1.5, portions: [{ label: "Cup", grams: 150 }] },
+
+  // Other
+  { key: "coffee", name: "Coffee", category: "other", kgCo2ePerKg: 28.5, portions: [{ label: "Cup (beans)", grams: 15 }] },
+  { key: "chocolate", name: "Dark chocolate", category: "other", kgCo2ePerKg: 46.7, portions: [{ label: "Square", grams: 10 }, { label: "Bar", grams: 100 }] },
+  { key: "sugar", name: "Sugar", category: "other", kgCo2ePerKg: 3.2, portions: [{ label: "Teaspoon", grams: 4 }] },
+  { key: "olive_oil", name: "Olive oil", category: "other", kgCo2ePerKg: 6.0, portions: [{ label: "Tablespoon", grams: 14 }] },
+];
+
+// A logged food item: catalog key and the mass eaten
+export interface MealItemData {
+  foodKey: string;
+  grams: number;
+}
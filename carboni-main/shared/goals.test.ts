@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { addDays, getGoalSeries, getGoalStreak, getPeriodEnd } from "./goals";
+import type { Goal } from "./schema";
+
+const goal = (id: number, startDate: string, status: string, seriesId: number | null = 1) =>
+  ({ id, startDate, status, seriesId }) as Goal;
+
+// Successive windows of a recurring series, as the rollover job lays them out
+function monthlyWindows(anchorDate: string, count: number): string[][] {
+  const windows: string[][] = [];
+  let startDate = anchorDate;
+  for (let i = 0; i < count; i++) {
+    const endDate = getPeriodEnd(startDate, "month", anchorDate);
+    windows.push([startDate, endDate]);
+    startDate = addDays(endDate, 1);
+  }
+  return windows;
+}
+
+describe("addDays", () => {
+  it("crosses month and year ends", () => {
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2024-12-31", 1)).toBe("2025-01-01");
+    expect(addDays("2025-03-01", -1)).toBe("2025-02-28");
+  });
+});
+
+describe("getPeriodEnd", () => {
+  it("ends a week six days after its start", () => {
+    expect(getPeriodEnd("2025-01-27", "week")).toBe("2025-02-02");
+  });
+
+  it("ends a month the day before the same date next month", () => {
+    expect(getPeriodEnd("2025-01-15", "month")).toBe("2025-02-14");
+    expect(getPeriodEnd("2025-12-01", "month")).toBe("2025-12-31");
+  });
+
+  it("clamps to the length of a shorter next month", () => {
+    expect(getPeriodEnd("2025-01-31", "month")).toBe("2025-02-27");
+    expect(getPeriodEnd("2024-01-31", "month")).toBe("2024-02-28");
+  });
+
+  it("keeps a series anchored on the 31st from drifting", () => {
+    expect(monthlyWindows("2025-01-31", 6)).toEqual([
+      ["2025-01-31", "2025-02-27"],
+      ["2025-02-28", "2025-03-30"],
+      ["2025-03-31", "2025-04-29"],
+      ["2025-04-30", "2025-05-30"],
+      ["2025-05-31", "2025-06-29"],
+      ["2025-06-30", "2025-07-30"],
+    ]);
+  });
+
+  it("returns to the anchor day after February", () => {
+    expect(monthlyWindows("2024-01-29", 3)).toEqual([
+      ["2024-01-29", "2024-02-28"],
+      ["2024-02-29", "2024-03-28"],
+      ["2024-03-29", "2024-04-28"],
+    ]);
+    expect(monthlyWindows("2025-01-30", 3)).toEqual([
+      ["2025-01-30", "2025-02-27"],
+      ["2025-02-28", "2025-03-29"],
+      ["2025-03-30", "2025-04-29"],
+    ]);
+  });
+});
+
+describe("getGoalSeries", () => {
+  it("returns a series' instances latest first", () => {
+    const goals = [goal(1, "2025-01-01", "completed"), goal(3, "2025-03-01", "active"), goal(2, "2025-02-01", "failed"), goal(4, "2025-02-01", "active", 9)];
+    expect(getGoalSeries(goals, goals[0]).map((instance) => instance.id)).toEqual([3, 2, 1]);
+  });
+
+  it("treats a one-off goal as its own series", () => {
+    const oneOff = goal(5, "2025-01-01", "active", null);
+    expect(getGoalSeries([oneOff, goal(1, "2025-01-01", "active")], oneOff)).toEqual([oneOff]);
+  });
+});
+
+describe("getGoalStreak", () => {
+  it("counts completed periods back to the latest failure", () => {
+    const series = [
+      goal(5, "2025-05-01", "active"),
+      goal(4, "2025-04-01", "completed"),
+      goal(3, "2025-03-01", "completed"),
+      goal(2, "2025-02-01", "failed"),
+      goal(1, "2025-01-01", "completed"),
+    ];
+    expect(getGoalStreak(series)).toBe(2);
+  });
+
+  it("skips paused and archived instances without breaking the streak", () => {
+    const series = [goal(3, "2025-03-01", "completed"), goal(2, "2025-02-01", "paused"), goal(1, "2025-01-01", "completed")];
+    expect(getGoalStreak(series)).toBe(2);
+  });
+
+  it("is zero when the latest settled period failed", () => {
+    expect(getGoalStreak([goal(2, "2025-02-01", "failed"), goal(1, "2025-01-01", "completed")])).toBe(0);
+    expect(getGoalStreak([])).toBe(0);
+  });
+});
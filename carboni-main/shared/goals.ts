@@ -0,0 +1,43 @@
+import type { Goal, GoalPeriod } from "./schema";
+
+const toIsoDate = (date: Date) => date.toISOString().split("T")[0];
+
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return toIsoDate(next);
+}
+
+// Last day of the period starting on a date: a week is seven days and a month
+// runs to the day before the anchor's day of the month next month, clamped to
+// that month's length. Periods of a recurring series share the anchor of its
+// first start date, so a series started on the 31st doesn't drift earlier
+// after each shorter month.
+export function getPeriodEnd(startDate: string, period: GoalPeriod, anchorDate: string = startDate): string {
+  if (period === "week") return addDays(startDate, 6);
+
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const anchorDay = new Date(`${anchorDate}T00:00:00Z`).getUTCDate();
+  const nextMonth = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  const lastDay = new Date(Date.UTC(nextMonth.getUTCFullYear(), nextMonth.getUTCMonth() + 1, 0)).getUTCDate();
+  nextMonth.setUTCDate(Math.min(anchorDay, lastDay));
+  return addDays(toIsoDate(nextMonth), -1);
+}
+
+// The instances of a recurring goal's series, latest first
+export function getGoalSeries(goals: Goal[], goal: Goal): Goal[] {
+  if (goal.seriesId === null) return [goal];
+  return goals
+    .filter((other) => other.seriesId === goal.seriesId)
+    .sort((a, b) => b.startDate.localeCompare(a.startDate));
+}
+
+// Consecutive periods met, counting back from the latest settled instance
+export function getGoalStreak(series: Goal[]): number {
+  let streak = 0;
+  for (const instance of series) {
+    if (instance.status === "completed") streak++;
+    else if (instance.status === "failed") break;
+  }
+  return streak;
+}
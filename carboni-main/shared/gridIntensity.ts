@@ -0,0 +1,101 @@
+import type { FactorSet } from "./emissions";
+
+// Bundled electricity grid intensity dataset (kg CO2e per kWh).
+// US entries are eGRID2022 subregion output emission rates; country entries are
+// national averages from Ember's 2023 yearly electricity data.
+export const GRID_INTENSITY_VERSION = "grid-2023";
+
+export interface GridRegion {
+  name: string;
+  kind: "egrid" | "country";
+  kgPerKwh: number;
+}
+
+export const GRID_REGIONS: Record<string, GridRegion> = {
+  // eGRID subregions
+  AKGD: { name: "ASCC Alaska Grid", kind: "egrid", kgPerKwh: 0.47 },
+  AKMS: { name: "ASCC Miscellaneous", kind: "egrid", kgPerKwh: 0.22 },
+  AZNM: { name: "WECC Southwest", kind: "egrid", kgPerKwh: 0.37 },
+  CAMX: { name: "WECC California", kind: "egrid", kgPerKwh: 0.23 },
+  ERCT: { name: "ERCOT All", kind: "egrid", kgPerKwh: 0.37 },
+  FRCC: { name: "FRCC All", kind: "egrid", kgPerKwh: 0.38 },
+  HIMS: { name: "HICC Miscellaneous", kind: "egrid", kgPerKwh: 0.5 },
+  HIOA: { name: "HICC Oahu", kind: "egrid", kgPerKwh: 0.72 },
+  MROE: { name: "MRO East", kind: "egrid", kgPerKwh: 0.67 },
+  MROW: { name: "MRO West", kind: "egrid", kgPerKwh: 0.43 },
+  NEWE: { name: "NPCC New England", kind: "egrid", kgPerKwh: 0.24 },
+  NWPP: { name: "WECC Northwest", kind: "egrid", kgPerKwh: 0.29 },
+  NYCW: { name: "NPCC NYC/Westchester", kind: "egrid", kgPerKwh: 0.39 },
+  NYLI: { name: "NPCC Long Island", kind: "egrid", kgPerKwh: 0.54 },
+  NYUP: { name: "NPCC Upstate NY", kind: "egrid", kgPerKwh: 0.11 },
+  PRMS: { name: "Puerto Rico Miscellaneous", kind: "egrid", kgPerKwh: 0.73 },
+  RFCE: { name: "RFC East", kind: "egrid", kgPerKwh: 0.29 },
+  RFCM: { name: "RFC Michigan", kind: "egrid", kgPerKwh: 0.53 },
+  RFCW: { name: "RFC West", kind: "egrid", kgPerKwh: 0.47 },
+  RMPA: { name: "WECC Rockies", kind: "egrid", kgPerKwh: 0.55 },
+  SPNO: { name: "SPP North", kind: "egrid", kgPerKwh: 0.42 },
+  SPSO: { name: "SPP South", kind: "egrid", kgPerKwh: 0.43 },
+  SRMV: { name: "SERC Mississippi Valley", kind: "egrid", kgPerKwh: 0.35 },
+  SRMW: { name: "SERC Midwest", kind: "egrid", kgPerKwh: 0.6 },
+  SRSO: { name: "SERC South", kind: "egrid", kgPerKwh: 0.39 },
+  SRTV: { name: "SERC Tennessee Valley", kind: "egrid", kgPerKwh: 0.4 },
+  SRVC: { name: "SERC Virginia/Carolina", kind: "egrid", kgPerKwh: 0.28 },
+
+  // Countries (ISO 3166-1 alpha-2)
+  AU: { name: "Australia", kind: "country", kgPerKwh: 0.53 },
+  BR: { name: "Brazil", kind: "country", kgPerKwh: 0.1 },
+  CA: { name: "Canada", kind: "country", kgPerKwh: 0.13 },
+  CN: { name: "China", kind: "country", kgPerKwh: 0.58 },
+  DE: { name: "Germany", kind: "country", kgPerKwh: 0.38 },
+  ES: { name: "Spain", kind: "country", kgPerKwh: 0.15 },
+  FR: { name: "France", kind: "country", kgPerKwh: 0.06 },
+  GB: { name: "United Kingdom", kind: "country", kgPerKwh: 0.21 },
+  IE: { name: "Ireland", kind: "country", kgPerKwh: 0.29 },
+  IN: { name: "India", kind: "country", kgPerKwh: 0.71 },
+  IT: { name: "Italy", kind: "country", kgPerKwh: 0.26 },
+  JP: { name: "Japan", kind: "country", kgPerKwh: 0.46 },
+  MX: { name: "Mexico", kind: "country", kgPerKwh: 0.42 },
+  NL: { name: "Netherlands", kind: "country", kgPerKwh: 0.33 },
+  NO: { name: "Norway", kind: "country", kgPerKwh: 0.03 },
+  PL: { name: "Poland", kind: "country", kgPerKwh: 0.66 },
+  SE: { name: "Sweden", kind: "country", kgPerKwh: 0.04 },
+  ZA: { name: "South Africa", kind: "country", kgPerKwh: 0.9 },
+};
+
+export function isGridRegion(value: unknown): value is string {
+  return typeof value === "string" && value in GRID_REGIONS;
+}
+
+// Factor version stamped on activities computed with a region's grid intensity
+export function getGridVersion(region: string): string {
+  return `${GRID_INTENSITY_VERSION}:${region}`;
+}
+
+// Region of a grid factor version, or null for any other version name
+export function parseGridVersion(version: string): string | null {
+  const [name, region] = version.split(":");
+  return name === GRID_INTENSITY_VERSION && isGridRegion(region) ? region : null;
+}
+
+// Swap the electricity factor for the region's grid intensity. The electric car
+// factor is scaled by the same ratio, since it is driven by charging from the grid.
+export function applyGridRegion(factorSet: FactorSet, region: string | null | undefined): FactorSet {
+  if (!isGridRegion(region)) return factorSet;
+
+  const { factors, versions } = factorSet;
+  const kgPerKwh = GRID_REGIONS[region].kgPerKwh;
+  const ratio = factors.energy.electricity > 0 ? kgPerKwh / factors.energy.electricity : 0;
+
+  return {
+    factors: {
+      ...factors,
+      transport: { ...factors.transport, car_electric: factors.transport.car_electric * ratio },
+      energy: { ...factors.energy, electricity: kgPerKwh },
+    },
+    versions: {
+      ...versions,
+      transport: `${versions.transport}+${getGridVersion(region)}`,
+      energy: `${versions.energy}+${getGridVersion(region)}`,
+    },
+  };
+}
@@ -5,6 +5,7 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   real,
   integer,
@@ -14,6 +15,13 @@ import {
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isGridRegion } from "./gridIntensity";
+import { DISTANCE_UNITS, GAS_UNITS, VOLUME_UNITS } from "./units";
+import { isAirportCode } from "./airports";
+import { CABIN_CLASSES } from "./flights";
+import { FUEL_TYPES, requiresMpg, requiresKwhPer100Mi } from "./vehicles";
+import { FOOD_CATEGORIES, type FoodPortion } from "./foods";
+import { GROUND_TRANSPORT_TYPES, TRANSPORT_TYPES, type EnergyBreakdown, type GroundTransportType } from "./emissions";
 
 // Session storage table - required for Replit Auth
 export const sessions = pgTable(
@@ -33,35 +41,119 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  gridRegion: varchar("grid_region"), // eGRID subregion or country code
+  distanceUnit: varchar("distance_unit").default("miles"), // miles, km
+  gasUnit: varchar("gas_unit").default("therms"), // therms, m3, kwh
+  volumeUnit: varchar("volume_unit").default("gallons"), // gallons, litres
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Activities table for logging carbon emissions
-export const activities = pgTable("activities", {
+// Activities table for logging carbon emissions, one row per user per day
+export const activities = pgTable(
+  "activities",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    date: date("date").notNull(),
+    
+    // Transport data (summary of the day's trips for multi-leg days)
+    transportType: varchar("transport_type"), // car_gasoline, car_electric, bus, train, bike, walking, multi_modal
+    transportDistance: real("transport_distance"), // miles
+    transportEmissions: real("transport_emissions"), // kg CO2e
+    
+    // Energy data
+    electricityUsage: real("electricity_usage"), // kWh
+    naturalGasUsage: real("natural_gas_usage"), // therms
+    heatingOilUsage: real("heating_oil_usage"), // gallons
+    propaneUsage: real("propane_usage"), // gallons
+    woodUsage: real("wood_usage"), // kg
+    districtHeatUsage: real("district_heat_usage"), // kWh
+    energyEmissions: real("energy_emissions"), // kg CO2e
+    energyBreakdown: jsonb("energy_breakdown").$type<EnergyBreakdown>(), // kg CO2e per source
+    
+    // Food data
+    beefServings: integer("beef_servings").default(0),
+    chickenServings: integer("chicken_servings").default(0),
+    vegetableServings: integer("vegetable_servings").default(0),
+    foodEmissions: real("food_emissions"), // kg CO2e
+    
+    // Emission factor versions used to compute each category
+    transportFactorVersion: varchar("transport_factor_version"),
+    energyFactorVersion: varchar("energy_factor_version"),
+    foodFactorVersion: varchar("food_factor_version"),
+    
+    // Total emissions for the day
+    totalEmissions: real("total_emissions").notNull(), // kg CO2e
+    
+    status: varchar("status").notNull().default("confirmed"), // draft (filled in for the user to check), confirmed
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  // One record per user per day; further logs for the day merge into it
+  (table) => [uniqueIndex("UQ_activity_user_date").on(table.userId, table.date)],
+);
+
+// Vehicles table: personal vehicle profiles used to derive per-mile emissions
+export const vehicles = pgTable("vehicles", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
-  date: date("date").notNull(),
-  
-  // Transport data
-  transportType: varchar("transport_type"), // car_gasoline, car_electric, bus, train, bike, walking
-  transportDistance: real("transport_distance"), // miles
-  transportEmissions: real("transport_emissions"), // kg CO2e
-  
-  // Energy data
-  electricityUsage: real("electricity_usage"), // kWh
-  naturalGasUsage: real("natural_gas_usage"), // therms
-  energyEmissions: real("energy_emissions"), // kg CO2e
-  
-  // Food data
-  beefServings: integer("beef_servings").default(0),
-  chickenServings: integer("chicken_servings").default(0),
-  vegetableServings: integer("vegetable_servings").default(0),
-  foodEmissions: real("food_emissions"), // kg CO2e
-  
-  // Total emissions for the day
-  totalEmissions: real("total_emissions").notNull(), // kg CO2e
+  name: varchar("name").notNull(),
+  fuelType: varchar("fuel_type").notNull(), // gasoline, diesel, hybrid, plug_in_hybrid, electric
+  mpg: real("mpg"), // miles per gallon
+  kwhPer100Mi: real("kwh_per_100_mi"), // kWh per 100 miles
+  defaultOccupancy: integer("default_occupancy").default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Trips table: individual transport legs of an activity day
+export const trips = pgTable("trips", {
+  id: serial("id").primaryKey(),
+  activityId: integer("activity_id").notNull().references(() => activities.id, { onDelete: "cascade" }),
+  mode: varchar("mode").notNull(), // car_gasoline, car_electric, bus, train, bike, walking, flight
+  distance: real("distance").notNull(), // miles (great-circle distance for flights)
+  passengers: integer("passengers"), // people sharing a private vehicle
+  vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }),
   
+  // Flight details
+  origin: varchar("origin"), // IATA code
+  destination: varchar("destination"), // IATA code
+  cabinClass: varchar("cabin_class"), // economy, premium_economy, business, first
+  radiativeForcing: boolean("radiative_forcing").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Food catalog: items that can be logged in a meal and their portion sizes.
+// Per-kg factors live in the emission factor registry under category "food".
+export const foodItems = pgTable("food_items", {
+  id: serial("id").primaryKey(),
+  key: varchar("key").notNull().unique(), // factor key, e.g. beef, lentils
+  name: varchar("name").notNull(),
+  category: varchar("category").notNull(), // meat, seafood, dairy_eggs, grains, legumes_nuts, produce, other
+  portions: jsonb("portions").$type<FoodPortion[]>().notNull(), // [{ label, grams }]
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Meal items table: catalog foods eaten on an activity day
+export const mealItems = pgTable("meal_items", {
+  id: serial("id").primaryKey(),
+  activityId: integer("activity_id").notNull().references(() => activities.id, { onDelete: "cascade" }),
+  foodKey: varchar("food_key").notNull().references(() => foodItems.key),
+  grams: real("grams").notNull(),
+  portionLabel: varchar("portion_label"), // portion picked in the form, for display
+  quantity: real("quantity"), // number of portions
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Activity templates: saved activity inputs a user can apply to a day. Days
+// matching the recurrence can be pre-filled as drafts by the template job.
+export const activityTemplates = pgTable("activity_templates", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: varchar("name").notNull(),
+  payload: jsonb("payload").$type<ActivityTemplatePayload>().notNull(), // activity inputs in canonical units
+  recurrenceDays: jsonb("recurrence_days").$type<number[]>().notNull().default([]), // days of the week, 0 = Sunday
+  autoFill: boolean("auto_fill").default(false), // pre-fill matching days as drafts
+  lastFilledDate: date("last_filled_date"), // latest day the template job has covered
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -69,13 +161,22 @@ export const activities = pgTable("activities", {
 export const goals = pgTable("goals", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
-  type: varchar("type").notNull(), // monthly_target, weekly_reduction
+  type: varchar("type").notNull(), // monthly_target, weekly_reduction, transport_reduction, energy_reduction
   targetValue: real("target_value").notNull(),
   currentValue: real("current_value").default(0),
   period: varchar("period").notNull(), // month, week
   startDate: date("start_date").notNull(),
   endDate: date("end_date").notNull(),
   achieved: boolean("achieved").default(false),
+  // Category reduction goals: weeks before the start the baseline covers, and
+  // the baseline found there in kg CO2e per week
+  baselineWeeks: integer("baseline_weeks"),
+  baselineValue: real("baseline_value"),
+  status: varchar("status").notNull().default("active"), // active, paused, completed, failed, archived
+  // A recurring goal starts a new instance for the next period when its window
+  // closes; every instance carries the id of the series' first goal
+  recurring: boolean("recurring").notNull().default(false),
+  seriesId: integer("series_id"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -89,18 +190,93 @@ export const achievements = pgTable("achievements", {
   unlockedAt: timestamp("unlocked_at").defaultNow(),
 });
 
+// Emission factor registry with provenance for every coefficient
+export const emissionFactors = pgTable(
+  "emission_factors",
+  {
+    id: serial("id").primaryKey(),
+    version: varchar("version").notNull(), // e.g. epa-2025
+    category: varchar("category").notNull(), // transport, energy, food
+    key: varchar("key").notNull(), // car_gasoline, electricity, beef, ...
+    value: real("value").notNull(),
+    unit: varchar("unit").notNull(), // kg CO2e per mile, kWh, therm, kg
+    source: varchar("source").notNull(),
+    region: varchar("region").notNull().default("US"),
+    validFrom: date("valid_from").notNull(),
+    validTo: date("valid_to"), // null while the factor is still current
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_emission_factor_lookup").on(table.category, table.key, table.validFrom),
+    uniqueIndex("UQ_emission_factor_version_key").on(table.version, table.category, table.key, table.region),
+  ],
+);
+
+// Admin-triggered recalculations of stored activity emissions
+export const recalculationRuns = pgTable("recalculation_runs", {
+  id: serial("id").primaryKey(),
+  triggeredBy: varchar("triggered_by").notNull().references(() => users.id),
+  userId: varchar("user_id").references(() => users.id), // null for all users
+  startDate: date("start_date"),
+  endDate: date("end_date"),
+  activitiesScanned: integer("activities_scanned").notNull(),
+  activitiesChanged: integer("activities_changed").notNull(),
+  diff: jsonb("diff").notNull(), // before/after emissions per changed activity
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   activities: many(activities),
+  vehicles: many(vehicles),
+  activityTemplates: many(activityTemplates),
   goals: many(goals),
   achievements: many(achievements),
 }));
 
-export const activitiesRelations = relations(activities, ({ one }) => ({
+export const activitiesRelations = relations(activities, ({ one, many }) => ({
   user: one(users, {
     fields: [activities.userId],
     references: [users.id],
   }),
+  trips: many(trips),
+  mealItems: many(mealItems),
+}));
+
+export const tripsRelations = relations(trips, ({ one }) => ({
+  activity: one(activities, {
+    fields: [trips.activityId],
+    references: [activities.id],
+  }),
+  vehicle: one(vehicles, {
+    fields: [trips.vehicleId],
+    references: [vehicles.id],
+  }),
+}));
+
+export const mealItemsRelations = relations(mealItems, ({ one }) => ({
+  activity: one(activities, {
+    fields: [mealItems.activityId],
+    references: [activities.id],
+  }),
+  food: one(foodItems, {
+    fields: [mealItems.foodKey],
+    references: [foodItems.key],
+  }),
+}));
+
+export const vehiclesRelations = relations(vehicles, ({ one }) => ({
+  user: one(users, {
+    fields: [vehicles.userId],
+    references: [users.id],
+  }),
+}));
+
+export const activityTemplatesRelations = relations(activityTemplates, ({ one }) => ({
+  user: one(users, {
+    fields: [activityTemplates.userId],
+    references: [users.id],
+  }),
 }));
 
 export const goalsRelations = relations(goals, ({ one }) => ({
@@ -117,17 +293,272 @@ export const achievementsRelations = relations(achievements, ({ one }) => ({
   }),
 }));
 
+export const ACTIVITY_STATUSES = ["draft", "confirmed"] as const;
+
 // Insert schemas
-export const insertActivitySchema = createInsertSchema(activities).omit({
+export const insertActivitySchema = createInsertSchema(activities, {
+  status: () => z.enum(ACTIVITY_STATUSES).optional(),
+  electricityUsage: () => z.number().min(0).nullish(),
+  naturalGasUsage: () => z.number().min(0).nullish(),
+}).omit({
   id: true,
   createdAt: true,
   transportEmissions: true,
   energyEmissions: true,
+  energyBreakdown: true,
   foodEmissions: true,
   totalEmissions: true,
+  transportFactorVersion: true,
+  energyFactorVersion: true,
+  foodFactorVersion: true,
+});
+
+export const insertTripSchema = createInsertSchema(trips, {
+  mode: () => z.enum(TRANSPORT_TYPES),
+  distance: (schema) => schema.min(0),
+  passengers: () => z.number().int().min(1).nullish(),
+  origin: () => z.string().toUpperCase().nullish(),
+  destination: () => z.string().toUpperCase().nullish(),
+  cabinClass: () => z.enum(CABIN_CLASSES as [string, ...string[]]).nullish(),
+  vehicleId: () => z.number().int().nullish(),
+})
+  .omit({
+    id: true,
+    activityId: true,
+    createdAt: true,
+  })
+  .superRefine((trip, ctx) => {
+    if (trip.mode !== "flight") return;
+    for (const field of ["origin", "destination"] as const) {
+      if (!isAirportCode(trip[field])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: "Unknown airport code" });
+      }
+    }
+  });
+
+export const insertVehicleSchema = createInsertSchema(vehicles, {
+  name: (schema) => schema.min(1),
+  fuelType: () => z.enum(FUEL_TYPES),
+  mpg: () => z.number().positive().nullish(),
+  kwhPer100Mi: () => z.number().positive().nullish(),
+  defaultOccupancy: () => z.number().int().min(1).nullish(),
+})
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .superRefine((vehicle, ctx) => {
+    if (requiresMpg(vehicle.fuelType) && !vehicle.mpg) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["mpg"], message: "MPG is required for this fuel type" });
+    }
+    if (requiresKwhPer100Mi(vehicle.fuelType) && !vehicle.kwhPer100Mi) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["kwhPer100Mi"], message: "kWh/100mi is required for this fuel type" });
+    }
+  });
+
+export const insertMealItemSchema = createInsertSchema(mealItems, {
+  grams: (schema) => schema.positive(),
+  portionLabel: () => z.string().nullish(),
+  quantity: () => z.number().positive().nullish(),
+}).omit({
+  id: true,
+  activityId: true,
+  createdAt: true,
+});
+
+export const insertFoodItemSchema = createInsertSchema(foodItems, {
+  category: () => z.enum(FOOD_CATEGORIES),
+  portions: () => z.array(z.object({ label: z.string().min(1), grams: z.number().positive() })),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Activity payload accepted by the API, with optional transport legs and
+// meal items
+export const insertActivityWithDetailsSchema = insertActivitySchema.extend({
+  trips: z.array(insertTripSchema).optional(),
+  mealItems: z.array(insertMealItemSchema).optional(),
+});
+
+// Activity inputs saved in a template; the date comes from the day it is applied to
+export const activityTemplatePayloadSchema = insertActivityWithDetailsSchema.omit({
+  userId: true,
+  date: true,
+  status: true,
+});
+
+export const insertActivityTemplateSchema = createInsertSchema(activityTemplates, {
+  name: (schema) => schema.trim().min(1),
+  payload: () => activityTemplatePayloadSchema,
+  recurrenceDays: () => z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  autoFill: () => z.boolean().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  lastFilledDate: true,
+});
+
+export const updateActivityTemplateSchema = insertActivityTemplateSchema.omit({ userId: true }).partial();
+
+// Day a template is applied to, defaulting to today
+export const applyActivityTemplateSchema = z.object({
+  date: z.string().optional(),
+});
+
+export const updateProfileSchema = z.object({
+  gridRegion: z
+    .string()
+    .refine(isGridRegion, { message: "Unknown grid region" })
+    .nullable()
+    .optional(),
+  distanceUnit: z.enum(DISTANCE_UNITS).optional(),
+  gasUnit: z.enum(GAS_UNITS).optional(),
+  volumeUnit: z.enum(VOLUME_UNITS).optional(),
+});
+
+export const ACTIVITY_CATEGORIES = ["transport", "energy", "food"] as const;
+export const ACTIVITY_SORTS = ["date_desc", "date_asc", "emissions_desc", "emissions_asc"] as const;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+
+// Query string of the activity history endpoint. Emission bounds are kg CO2e
+// of the day's total; the cursor is opaque and comes from the previous page.
+export const activityHistoryQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(100).default(30),
+    cursor: z.string().optional(),
+    startDate: isoDate.optional(),
+    endDate: isoDate.optional(),
+    category: z.enum(ACTIVITY_CATEGORIES).optional(),
+    status: z.enum(ACTIVITY_STATUSES).optional(),
+    transportType: z.string().optional(),
+    minEmissions: z.coerce.number().min(0).optional(),
+    maxEmissions: z.coerce.number().min(0).optional(),
+    sort: z.enum(ACTIVITY_SORTS).default("date_desc"),
+  })
+  .refine((query) => !query.startDate || !query.endDate || query.startDate <= query.endDate, {
+    message: "startDate must not be after endDate",
+    path: ["endDate"],
+  })
+  .refine(
+    (query) => query.minEmissions === undefined || query.maxEmissions === undefined || query.minEmissions <= query.maxEmissions,
+    { message: "minEmissions must not exceed maxEmissions", path: ["maxEmissions"] },
+  );
+
+export const ACTIVITY_REVIEW_ACTIONS = ["confirm", "discard"] as const;
+
+// Bulk action from the review queue. Only drafts are affected.
+export const activityReviewSchema = z.object({
+  ids: z.array(z.number().int()).min(1).max(500),
+  action: z.enum(ACTIVITY_REVIEW_ACTIONS),
+});
+
+export const GREEN_BUTTON_DAY_STATUSES = ["new", "update", "overlap", "unchanged", "future"] as const;
+
+// Green Button (ESPI XML) utility usage import. Days where the user already
+// entered a value are only overwritten when `overwrite` is set.
+export const greenButtonImportSchema = z.object({
+  xml: z.string().min(1, "The file is empty"),
+  dryRun: z.boolean().default(true),
+  overwrite: z.boolean().default(false),
+});
+
+export const TRACK_IMPORT_STATUSES = ["ready", "skipped", "rejected"] as const;
+
+// GPX or GeoJSON trip import. Tracks are referred to by their position in the
+// file; `modes` overrides the mode inferred from a track's average speed.
+// `timezoneOffset` is the uploader's Date.getTimezoneOffset(), which decides
+// the local day each track started on.
+export const trackImportSchema = z.object({
+  content: z.string().min(1, "The file is empty"),
+  timezoneOffset: z.number().int().min(-840).max(840).default(0),
+  modes: z.record(z.string().regex(/^\d+$/, "Expected a track index"), z.enum(GROUND_TRANSPORT_TYPES)).default({}),
+  skip: z.array(z.number().int().min(0)).default([]),
+  dryRun: z.boolean().default(true),
+});
+
+export const EXPORT_FORMATS = ["csv", "json"] as const;
+
+// Query string of the data export endpoint
+export const exportQuerySchema = z
+  .object({
+    format: z.enum(EXPORT_FORMATS).default("csv"),
+    startDate: isoDate.optional(),
+    endDate: isoDate.optional(),
+  })
+  .refine((query) => !query.startDate || !query.endDate || query.startDate <= query.endDate, {
+    message: "startDate must not be after endDate",
+    path: ["endDate"],
+  });
+
+// Activity fields a CSV column can be mapped onto when importing. Quantities
+// are read in the importing user's preferred units.
+export const IMPORT_FIELDS = [
+  "date",
+  "transportType",
+  "transportDistance",
+  "electricityUsage",
+  "naturalGasUsage",
+  "heatingOilUsage",
+  "propaneUsage",
+  "woodUsage",
+  "districtHeatUsage",
+  "beefServings",
+  "chickenServings",
+  "vegetableServings",
+] as const satisfies readonly (keyof z.infer<typeof insertActivitySchema>)[];
+
+export const IMPORT_ROW_STATUSES = ["accepted", "rejected", "duplicate"] as const;
+
+// CSV import request: the file contents and which column feeds each field.
+// A dry run validates and reports without saving.
+export const activityImportSchema = z.object({
+  csv: z.string().min(1, "The file is empty"),
+  mapping: z
+    .record(z.enum(IMPORT_FIELDS), z.string())
+    .refine((mapping) => Boolean(mapping.date), { message: "A column must be mapped to date", path: ["date"] }),
+  dryRun: z.boolean().default(true),
+});
+
+// monthly_target caps total emissions (kg CO2e) over the goal's window; the
+// reduction goals are a percentage cut in daily emissions from a baseline
+export const GOAL_TYPES = ["monthly_target", "weekly_reduction", "transport_reduction", "energy_reduction"] as const;
+// Reduction goals for one category, measured against the user's weeks before
+// the goal rather than the period just before it
+export const CATEGORY_REDUCTION_GOAL_TYPES = ["transport_reduction", "energy_reduction"] as const;
+export const DEFAULT_BASELINE_WEEKS = 4;
+export const GOAL_PERIODS = ["week", "month"] as const;
+
+// completed and failed are set when a goal's window ends; users move goals
+// between the others
+export const GOAL_STATUSES = ["active", "paused", "completed", "failed", "archived"] as const;
+export const USER_GOAL_STATUSES = ["active", "paused", "archived"] as const;
+
+export const insertGoalSchema = createInsertSchema(goals, {
+  type: () => z.enum(GOAL_TYPES),
+  status: () => z.enum(USER_GOAL_STATUSES).optional(),
+  period: () => z.enum(GOAL_PERIODS),
+  baselineWeeks: () => z.number().int().min(1).max(52).nullish(),
+  recurring: () => z.boolean().optional(),
+}).omit({
+  id: true,
+  baselineValue: true,
+  seriesId: true,
+  createdAt: true,
+});
+
+// Progress is computed from activities, never edited directly
+export const updateGoalSchema = insertGoalSchema
+  .omit({ userId: true, currentValue: true, achieved: true })
+  .partial();
+
+export const insertEmissionFactorSchema = createInsertSchema(emissionFactors).omit({
+  id: true,
+  createdAt: true,
 });
 
-export const insertGoalSchema = createInsertSchema(goals).omit({
+export const insertRecalculationRunSchema = createInsertSchema(recalculationRuns).omit({
   id: true,
   createdAt: true,
 });
@@ -140,9 +571,113 @@ export const insertAchievementSchema = createInsertSchema(achievements).omit({
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 export type Activity = typeof activities.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
+export type Trip = typeof trips.$inferSelect;
+export type InsertTrip = z.infer<typeof insertTripSchema>;
+export type MealItem = typeof mealItems.$inferSelect;
+export type InsertMealItem = z.infer<typeof insertMealItemSchema>;
+export type ActivityWithDetails = Activity & { trips: Trip[]; mealItems: MealItem[] };
+export type ActivityCategory = (typeof ACTIVITY_CATEGORIES)[number];
+export type ActivitySort = (typeof ACTIVITY_SORTS)[number];
+export type ActivityHistoryQuery = z.infer<typeof activityHistoryQuerySchema>;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+export type ImportRowStatus = (typeof IMPORT_ROW_STATUSES)[number];
+export type ActivityImportRequest = z.infer<typeof activityImportSchema>;
+// Outcome of one data row; `row` is its line in the file, the header being line 1
+export type ImportRowResult = {
+  row: number;
+  date: string | null;
+  status: ImportRowStatus;
+  errors: string[];
+  totalEmissions: number | null;
+};
+export type ImportReport = {
+  rows: ImportRowResult[];
+  accepted: number;
+  rejected: number;
+  duplicate: number;
+  committed: boolean;
+};
+export type GreenButtonDayStatus = (typeof GREEN_BUTTON_DAY_STATUSES)[number];
+export type GreenButtonImportRequest = z.infer<typeof greenButtonImportSchema>;
+// One day of imported usage in the user's units, beside what is already logged
+export type GreenButtonDay = {
+  date: string;
+  electricityUsage: number | null;
+  naturalGasUsage: number | null;
+  existingElectricityUsage: number | null;
+  existingNaturalGasUsage: number | null;
+  status: GreenButtonDayStatus;
+};
+export type GreenButtonReport = {
+  days: GreenButtonDay[];
+  skippedReadings: number;
+  created: number;
+  updated: number;
+  committed: boolean;
+};
+export type TrackImportStatus = (typeof TRACK_IMPORT_STATUSES)[number];
+export type TrackImportRequest = z.infer<typeof trackImportSchema>;
+// One track of an import; distance and speed are in the user's distance unit
+export type TrackImportRow = {
+  index: number;
+  name: string | null;
+  date: string | null;
+  distance: number;
+  durationSeconds: number | null;
+  averageSpeed: number | null;
+  inferredMode: GroundTransportType;
+  mode: GroundTransportType;
+  status: TrackImportStatus;
+  errors: string[];
+  totalEmissions: number | null;
+};
+export type TrackImportReport = {
+  tracks: TrackImportRow[];
+  created: number;
+  updated: number;
+  committed: boolean;
+};
+export type ActivityPage = { activities: ActivityWithDetails[]; nextCursor: string | null };
+export type FoodItem = typeof foodItems.$inferSelect;
+export type InsertFoodItem = z.infer<typeof insertFoodItemSchema>;
+export type FoodItemWithFactor = FoodItem & { kgCo2ePerKg: number | null };
+export type Vehicle = typeof vehicles.$inferSelect;
+export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
+export type ActivityStatus = (typeof ACTIVITY_STATUSES)[number];
+export type ActivityReviewAction = (typeof ACTIVITY_REVIEW_ACTIONS)[number];
+export type ActivityTemplate = typeof activityTemplates.$inferSelect;
+export type InsertActivityTemplate = z.infer<typeof insertActivityTemplateSchema>;
+export type ActivityTemplatePayload = z.infer<typeof activityTemplatePayloadSchema>;
 export type Goal = typeof goals.$inferSelect;
+export type GoalType = (typeof GOAL_TYPES)[number];
+export type GoalStatus = (typeof GOAL_STATUSES)[number];
+export type GoalPeriod = (typeof GOAL_PERIODS)[number];
+// Projected end-of-window outcome of a goal, in the goal's own measure (kg
+// CO2e for monthly_target, percent reduction otherwise)
+export type GoalForecast = {
+  goalId: number;
+  current: number;
+  projected: number;
+  // 80% confidence band around the projection
+  low: number;
+  high: number;
+  onTrack: boolean;
+  daysRemaining: number;
+  // Expected emissions per remaining day at the current pace (kg CO2e)
+  expectedDaily: number;
+  // Cut from expectedDaily needed on each remaining day to meet the target
+  // (kg CO2e); 0 when on track, null when the target can no longer be met
+  requiredDailyReduction: number | null;
+};
 export type InsertGoal = z.infer<typeof insertGoalSchema>;
+export type EmissionFactor = typeof emissionFactors.$inferSelect;
+export type InsertEmissionFactor = z.infer<typeof insertEmissionFactorSchema>;
+export type RecalculationRun = typeof recalculationRuns.$inferSelect;
+export type InsertRecalculationRun = z.infer<typeof insertRecalculationRunSchema>;
 export type Achievement = typeof achievements.$inferSelect;
 export type InsertAchievement = z.infer<typeof insertAchievementSchema>;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  DISTANCE_UNITS,
+  GAS_UNITS,
+  VOLUME_UNITS,
+  activityFromCanonical,
+  activityToCanonical,
+  fromGallons,
+  fromMiles,
+  fromTherms,
+  getUnitPreferences,
+  toGallons,
+  toMiles,
+  toTherms,
+} from "./units";
+
+describe("unit conversions", () => {
+  it("converts into canonical units", () => {
+    expect(toMiles(1.609344, "km")).toBeCloseTo(1, 10);
+    expect(toTherms(2.83168, "m3")).toBeCloseTo(1, 10);
+    expect(toTherms(29.3071, "kwh")).toBeCloseTo(1, 10);
+    expect(toGallons(3.78541, "litres")).toBeCloseTo(1, 10);
+  });
+
+  it("passes null and undefined through", () => {
+    expect(toMiles(null, "km")).toBeNull();
+    expect(fromTherms(undefined, "m3")).toBeUndefined();
+  });
+
+  it.each(DISTANCE_UNITS)("round-trips distances in %s", (unit) => {
+    expect(fromMiles(toMiles(42.5, unit), unit)).toBeCloseTo(42.5, 10);
+  });
+
+  it.each(GAS_UNITS)("round-trips gas in %s", (unit) => {
+    expect(fromTherms(toTherms(12.3, unit), unit)).toBeCloseTo(12.3, 10);
+  });
+
+  it.each(VOLUME_UNITS)("round-trips volumes in %s", (unit) => {
+    expect(fromGallons(toGallons(7.25, unit), unit)).toBeCloseTo(7.25, 10);
+  });
+});
+
+describe("activity conversion", () => {
+  const units = { distanceUnit: "km", gasUnit: "m3", volumeUnit: "litres" } as const;
+  const entered = {
+    trips: [{ mode: "bus", distance: 16.09344 }],
+    transportDistance: null,
+    electricityUsage: 10,
+    naturalGasUsage: 28.3168,
+    heatingOilUsage: 37.8541,
+    propaneUsage: null,
+  };
+
+  it("stores miles, therms and gallons", () => {
+    const canonical = activityToCanonical(entered, units);
+    expect(canonical.trips?.[0].distance).toBeCloseTo(10, 10);
+    expect(canonical.naturalGasUsage).toBeCloseTo(10, 10);
+    expect(canonical.heatingOilUsage).toBeCloseTo(10, 10);
+    expect(canonical.propaneUsage).toBeNull();
+    // Electricity is kWh in every preference
+    expect(canonical.electricityUsage).toBe(10);
+  });
+
+  it("round-trips through the user's units", () => {
+    const roundTripped = activityFromCanonical(activityToCanonical(entered, units), units);
+    expect(roundTripped.trips?.[0].distance).toBeCloseTo(entered.trips[0].distance, 10);
+    expect(roundTripped.naturalGasUsage).toBeCloseTo(entered.naturalGasUsage, 10);
+    expect(roundTripped.heatingOilUsage).toBeCloseTo(entered.heatingOilUsage, 10);
+  });
+});
+
+describe("getUnitPreferences", () => {
+  it("falls back to the defaults for missing or unknown units", () => {
+    expect(getUnitPreferences(null)).toEqual({ distanceUnit: "miles", gasUnit: "therms", volumeUnit: "gallons" });
+    expect(getUnitPreferences({ distanceUnit: "km", gasUnit: "cubic_feet", volumeUnit: null })).toEqual({
+      distanceUnit: "km",
+      gasUnit: "therms",
+      volumeUnit: "gallons",
+    });
+  });
+});
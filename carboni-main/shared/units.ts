@@ -0,0 +1,132 @@
+// Unit preferences and conversions. Storage is canonical (miles, therms,
+// gallons); values are converted at the API boundary and in the client form.
+
+export const DISTANCE_UNITS = ["miles", "km"] as const;
+export const GAS_UNITS = ["therms", "m3", "kwh"] as const;
+export const VOLUME_UNITS = ["gallons", "litres"] as const;
+
+export type DistanceUnit = (typeof DISTANCE_UNITS)[number];
+export type GasUnit = (typeof GAS_UNITS)[number];
+export type VolumeUnit = (typeof VOLUME_UNITS)[number];
+
+export interface UnitPreferences {
+  distanceUnit: DistanceUnit;
+  gasUnit: GasUnit;
+  volumeUnit: VolumeUnit;
+}
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  distanceUnit: "miles",
+  gasUnit: "therms",
+  volumeUnit: "gallons",
+};
+
+export const UNIT_LABELS: Record<DistanceUnit | GasUnit | VolumeUnit, string> = {
+  miles: "miles",
+  km: "km",
+  therms: "therms",
+  m3: "m³",
+  kwh: "kWh",
+  gallons: "gallons",
+  litres: "litres",
+};
+
+const KM_PER_MILE = 1.609344;
+const M3_PER_THERM = 2.83168; // natural gas, ~100 cubic feet per therm
+const KWH_PER_THERM = 29.3071;
+const LITRES_PER_GALLON = 3.78541;
+
+// Size of one preferred unit in the canonical unit
+const DISTANCE_IN_MILES: Record<DistanceUnit, number> = {
+  miles: 1,
+  km: 1 / KM_PER_MILE,
+};
+
+const GAS_IN_THERMS: Record<GasUnit, number> = {
+  therms: 1,
+  m3: 1 / M3_PER_THERM,
+  kwh: 1 / KWH_PER_THERM,
+};
+
+const VOLUME_IN_GALLONS: Record<VolumeUnit, number> = {
+  gallons: 1,
+  litres: 1 / LITRES_PER_GALLON,
+};
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && values.includes(value as T);
+}
+
+function scale<T extends number | null | undefined>(value: T, factor: number): T {
+  return (value == null ? value : value * factor) as T;
+}
+
+export function getUnitPreferences(
+  user?: { distanceUnit?: string | null; gasUnit?: string | null; volumeUnit?: string | null } | null,
+): UnitPreferences {
+  return {
+    distanceUnit: isOneOf(DISTANCE_UNITS, user?.distanceUnit) ? user.distanceUnit : DEFAULT_UNIT_PREFERENCES.distanceUnit,
+    gasUnit: isOneOf(GAS_UNITS, user?.gasUnit) ? user.gasUnit : DEFAULT_UNIT_PREFERENCES.gasUnit,
+    volumeUnit: isOneOf(VOLUME_UNITS, user?.volumeUnit) ? user.volumeUnit : DEFAULT_UNIT_PREFERENCES.volumeUnit,
+  };
+}
+
+export function toMiles<T extends number | null | undefined>(value: T, unit: DistanceUnit): T {
+  return scale(value, DISTANCE_IN_MILES[unit]);
+}
+
+export function fromMiles<T extends number | null | undefined>(value: T, unit: DistanceUnit): T {
+  return scale(value, 1 / DISTANCE_IN_MILES[unit]);
+}
+
+export function toTherms<T extends number | null | undefined>(value: T, unit: GasUnit): T {
+  return scale(value, GAS_IN_THERMS[unit]);
+}
+
+export function fromTherms<T extends number | null | undefined>(value: T, unit: GasUnit): T {
+  return scale(value, 1 / GAS_IN_THERMS[unit]);
+}
+
+export function toGallons<T extends number | null | undefined>(value: T, unit: VolumeUnit): T {
+  return scale(value, VOLUME_IN_GALLONS[unit]);
+}
+
+export function fromGallons<T extends number | null | undefined>(value: T, unit: VolumeUnit): T {
+  return scale(value, 1 / VOLUME_IN_GALLONS[unit]);
+}
+
+interface UnitFields {
+  trips?: Array<{ distance: number }> | null;
+  transportDistance?: number | null;
+  naturalGasUsage?: number | null;
+  heatingOilUsage?: number | null;
+  propaneUsage?: number | null;
+}
+
+// Convert activity inputs entered in the user's units into canonical units
+export function activityToCanonical<T extends UnitFields>(data: T, units: UnitPreferences): T {
+  return {
+    ...data,
+    trips: data.trips?.map((trip) => ({ ...trip, distance: toMiles(trip.distance, units.distanceUnit) })),
+    transportDistance: toMiles(data.transportDistance, units.distanceUnit),
+    naturalGasUsage: toTherms(data.naturalGasUsage, units.gasUnit),
+    heatingOilUsage: toGallons(data.heatingOilUsage, units.volumeUnit),
+    propaneUsage: toGallons(data.propaneUsage, units.volumeUnit),
+  };
+}
+
+// Convert stored activity inputs into the user's units for display
+export function activityFromCanonical<T extends UnitFields>(data: T, units: UnitPreferences): T {
+  return {
+    ...data,
+    trips: data.trips?.map((trip) => ({ ...trip, distance: fromMiles(trip.distance, units.distanceUnit) })),
+    transportDistance: fromMiles(data.transportDistance, units.distanceUnit),
+    naturalGasUsage: fromTherms(data.naturalGasUsage, units.gasUnit),
+    heatingOilUsage: fromGallons(data.heatingOilUsage, units.volumeUnit),
+    propaneUsage: fromGallons(data.propaneUsage, units.volumeUnit),
+  };
+}
+
+export function formatQuantity(value: number, unit: DistanceUnit | GasUnit | VolumeUnit): string {
+  return `${Math.round(value * 100) / 100} ${UNIT_LABELS[unit]}`;
+}
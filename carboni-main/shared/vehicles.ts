@@ -0,0 +1,62 @@
+import type { EmissionFactors, TransportType } from "./emissions";
+
+export const FUEL_TYPES = ["gasoline", "diesel", "hybrid", "plug_in_hybrid", "electric"] as const;
+
+export type FuelType = (typeof FUEL_TYPES)[number];
+
+export const FUEL_TYPE_LABELS: Record<FuelType, string> = {
+  gasoline: "Gasoline",
+  diesel: "Diesel",
+  hybrid: "Hybrid",
+  plug_in_hybrid: "Plug-in Hybrid",
+  electric: "Electric (EV)",
+};
+
+// Share of plug-in hybrid miles driven on electricity (typical utility factor)
+export const PLUG_IN_HYBRID_ELECTRIC_SHARE = 0.5;
+
+export interface VehicleProfile {
+  fuelType: string;
+  mpg?: number | null;
+  kwhPer100Mi?: number | null;
+  defaultOccupancy?: number | null;
+}
+
+// Transport mode a vehicle's trips are logged under
+export function getVehicleTransportType(vehicle: VehicleProfile): TransportType {
+  return vehicle.fuelType === "electric" ? "car_electric" : "car_gasoline";
+}
+
+// Which efficiency figures a fuel type needs
+export function requiresMpg(fuelType: string): boolean {
+  return fuelType !== "electric";
+}
+
+export function requiresKwhPer100Mi(fuelType: string): boolean {
+  return fuelType === "electric" || fuelType === "plug_in_hybrid";
+}
+
+// Per-vehicle kg CO2e per mile derived from the profile's fuel economy, or
+// null when the profile is missing the figures its fuel type needs. Electric
+// miles use the grid factor, so they follow the user's grid region.
+export function getVehicleEmissionsPerMile(vehicle: VehicleProfile, factors: EmissionFactors): number | null {
+  const fuelPerMile = (kgPerGallon: number) => (vehicle.mpg ? kgPerGallon / vehicle.mpg : null);
+  const electricPerMile = vehicle.kwhPer100Mi ? (vehicle.kwhPer100Mi / 100) * factors.energy.electricity : null;
+
+  switch (vehicle.fuelType) {
+    case "gasoline":
+    case "hybrid":
+      return fuelPerMile(factors.transport.gasoline);
+    case "diesel":
+      return fuelPerMile(factors.transport.diesel);
+    case "electric":
+      return electricPerMile;
+    case "plug_in_hybrid": {
+      const gasoline = fuelPerMile(factors.transport.gasoline);
+      if (gasoline === null || electricPerMile === null) return null;
+      return PLUG_IN_HYBRID_ELECTRIC_SHARE * electricPerMile + (1 - PLUG_IN_HYBRID_ELECTRIC_SHARE) * gasoline;
+    }
+    default:
+      return null;
+  }
+}